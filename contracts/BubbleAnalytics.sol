@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint32, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint32, euint64, ebool, externalEuint32 } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 contract BubbleAnalytics is SepoliaConfig {
@@ -11,6 +11,7 @@ contract BubbleAnalytics is SepoliaConfig {
         euint32[] categoryScores;    // Encrypted category preference scores
         euint32[] sentimentScores;   // Encrypted sentiment scores
         uint256 timestamp;
+        uint256 categoriesVersion;   // Registry version the score arrays cover
     }
     
     struct BubbleAnalysis {
@@ -20,6 +21,14 @@ contract BubbleAnalytics is SepoliaConfig {
         bool isComplete;
     }
     
+    struct DecryptionRequest {
+        uint256 userId;
+        uint256 requestedAt;
+        bool fulfilled;
+        uint256 resultVersion;      // resultVersions[userId] when requested
+        bytes32[] handles;          // Result handles requested, in cleartext order
+    }
+    
     struct DecryptedResult {
         uint32 diversityScore;
         uint32[] biasVector;
@@ -27,63 +36,216 @@ contract BubbleAnalytics is SepoliaConfig {
         bool isRevealed;
     }
     
+    struct AnalysisCalculation {
+        uint256 historyRevision;    // historyRevisions[userId] the steps so far were calculated from
+        uint256 nextCategory;       // First category whose bias is still to be calculated
+    }
+    
     // Contract state
     mapping(uint256 => EncryptedReadingHistory) public userReadingHistory;
+    // Bumped by every change to a user's history, including several in one block, which share a timestamp
+    mapping(uint256 => uint256) public historyRevisions;
     mapping(uint256 => BubbleAnalysis) public analysisResults;
     mapping(uint256 => DecryptedResult) public decryptedResults;
+    // Bumped whenever a user's result handles are replaced, so a decryption request can tell it asked for an older result
+    mapping(uint256 => uint256) public resultVersions;
     
-    // Category definitions
+    // On-chain calculations in progress, see calculateAnalysis
+    uint256 public constant BIAS_CATEGORIES_PER_STEP = 4;
+    mapping(uint256 => AnalysisCalculation) public analysisCalculations;
+    
+    // Category registry: append-only, so an index keeps its category and each addition bumps the version
     string[] public categories;
     mapping(string => uint256) public categoryIndex;
+    uint256 public categoriesVersion = 1;
+    // The first step of calculateAnalysis grows with the categories and must stay within one transaction's HCU limit
+    uint256 public constant MAX_CATEGORIES = 12;
+    
+    // Decryption requests tracking: a request still unfulfilled after the timeout, or made for a replaced result,
+    // may be made again
+    mapping(uint256 => DecryptionRequest) public decryptionRequests;
+    mapping(uint256 => uint256[]) private userDecryptionRequests;
+    uint256 public decryptionTimeout = 1 hours;
     
-    // Decryption requests tracking
-    mapping(uint256 => uint256) private requestToUserId;
+    // Access control: each userId belongs to one wallet; the admin manages categories and analyzers
+    address public admin;
+    mapping(address => bool) public analyzers;
+    mapping(uint256 => address) public userWallets;
+    // Wallets a userId's registered wallet offered to move it to, until they accept
+    mapping(uint256 => address) public pendingUserWallets;
     
     // Events
     event ReadingHistorySubmitted(uint256 indexed userId, uint256 timestamp);
+    event ArticleAppended(uint256 indexed userId, uint256 articleCount);
+    event CategoryAdded(uint256 indexed index, string category, uint256 version);
+    event HistoryMigrated(uint256 indexed userId, uint256 version);
     event AnalysisRequested(uint256 indexed userId);
     event AnalysisCompleted(uint256 indexed userId);
+    event AnalysisCalculationProgress(uint256 indexed userId, uint256 categoriesDone, uint256 categoryCount);
     event ResultRevealed(uint256 indexed userId);
+    event DecryptionRequested(uint256 indexed userId, uint256 indexed requestId, uint256 timestamp);
+    event ResultAccessGranted(uint256 indexed userId, address indexed account);
+    event UserRegistered(uint256 indexed userId, address indexed wallet);
+    event UserWalletProposed(uint256 indexed userId, address indexed wallet);
+    event AnalyzerUpdated(address indexed account, bool enabled);
+    event AdminTransferred(address indexed previousAdmin, address indexed newAdmin);
+    event DecryptionTimeoutUpdated(uint256 timeout);
     
     modifier onlyUser(uint256 userId) {
-        // Access control placeholder (user verification)
+        require(userWallets[userId] == msg.sender, "Not the registered wallet");
+        _;
+    }
+    
+    modifier onlyAdmin() {
+        require(msg.sender == admin, "Caller is not the admin");
         _;
     }
     
-    /// @notice Initialize categories
+    modifier onlyAnalyzer() {
+        require(analyzers[msg.sender], "Caller is not an analyzer");
+        _;
+    }
+    
+    /// @notice Initialize categories; the deployer becomes the admin
     constructor() {
+        admin = msg.sender;
+        emit AdminTransferred(address(0), msg.sender);
+        
         categories = ["Politics", "Technology", "Health", "Environment", "Economy"];
         for (uint i = 0; i < categories.length; i++) {
             categoryIndex[categories[i]] = i;
         }
     }
     
+    /// @notice Register a userId to the calling wallet
+    /// @dev The userId must be the caller's address read as a uint256, so nobody can claim another wallet's id
+    function registerUser(uint256 userId) public {
+        _registerUser(userId, msg.sender);
+    }
+    
+    /// @notice Offer to move a userId to another wallet, e.g. before retiring the registered one
+    /// @dev Nothing moves until the new wallet accepts; a later offer replaces this one
+    function setUserWallet(uint256 userId, address wallet) public onlyUser(userId) {
+        require(wallet != address(0) && wallet != msg.sender, "Invalid wallet");
+        pendingUserWallets[userId] = wallet;
+        emit UserWalletProposed(userId, wallet);
+    }
+    
+    /// @notice Accept a userId its registered wallet offered to the caller
+    function acceptUserWallet(uint256 userId) public {
+        require(pendingUserWallets[userId] == msg.sender, "Not the proposed wallet");
+        delete pendingUserWallets[userId];
+        userWallets[userId] = msg.sender;
+        
+        // The new wallet takes over the user's data; ACL grants cannot be revoked, so the old one keeps its access
+        if (userReadingHistory[userId].timestamp > 0) {
+            _allowHistory(userId, msg.sender);
+        }
+        if (analysisResults[userId].isComplete) {
+            _allowResult(userId, msg.sender);
+        }
+        emit UserRegistered(userId, msg.sender);
+    }
+    
+    /// @notice Grant or revoke the analyzer role, which may store analysis results
+    function setAnalyzer(address account, bool enabled) public onlyAdmin {
+        analyzers[account] = enabled;
+        emit AnalyzerUpdated(account, enabled);
+    }
+    
+    /// @notice Set how long a decryption request may stay unanswered before the user can make it again
+    function setDecryptionTimeout(uint256 timeout) public onlyAdmin {
+        require(timeout > 0, "Invalid timeout");
+        decryptionTimeout = timeout;
+        emit DecryptionTimeoutUpdated(timeout);
+    }
+    
+    function transferAdmin(address newAdmin) public onlyAdmin {
+        require(newAdmin != address(0), "Invalid admin");
+        emit AdminTransferred(admin, newAdmin);
+        admin = newAdmin;
+    }
+    
     /// @notice Submit encrypted reading history
+    /// @dev All handles must come from a single encrypted input bound to this contract and the sender.
+    ///      An unregistered userId is registered to the sender by its first submission, see registerUser.
     function submitReadingHistory(
         uint256 userId,
-        euint32[] memory articleIds,
-        euint32[] memory categoryScores,
-        euint32[] memory sentimentScores
-    ) public onlyUser(userId) {
+        externalEuint32[] calldata articleIds,
+        externalEuint32[] calldata categoryScores,
+        externalEuint32[] calldata sentimentScores,
+        bytes calldata inputProof
+    ) public {
+        _claimUser(userId);
         require(
             categoryScores.length == categories.length,
             "Invalid category scores length"
         );
+        // appendArticle and calculateAnalysis read both arrays per category
+        require(
+            sentimentScores.length == categories.length,
+            "Invalid sentiment scores length"
+        );
         
         userReadingHistory[userId] = EncryptedReadingHistory({
             userId: userId,
-            articleIds: articleIds,
-            categoryScores: categoryScores,
-            sentimentScores: sentimentScores,
-            timestamp: block.timestamp
+            articleIds: _fromExternal(articleIds, inputProof),
+            categoryScores: _fromExternal(categoryScores, inputProof),
+            sentimentScores: _fromExternal(sentimentScores, inputProof),
+            timestamp: block.timestamp,
+            categoriesVersion: categoriesVersion
         });
+        _allowHistory(userId, msg.sender);
+        historyRevisions[userId]++;
         
         emit ReadingHistorySubmitted(userId, block.timestamp);
     }
     
+    /// @notice Add one article to the reading history without re-uploading it
+    /// @dev The category stays encrypted: every category total receives an encrypted 0 or 1 (and 0 or the
+    ///      sentiment), selected by comparing the category with each index. The three handles must come from a
+    ///      single encrypted input bound to this contract and the sender; the first append starts a history.
+    function appendArticle(
+        uint256 userId,
+        externalEuint32 encryptedCategory,
+        externalEuint32 sentiment,
+        externalEuint32 articleId,
+        bytes calldata inputProof
+    ) public {
+        _claimUser(userId);
+        
+        // Starts a new history at zero, or brings an existing one up to the current categories
+        _migrateHistory(userId);
+        EncryptedReadingHistory storage history = userReadingHistory[userId];
+        history.userId = userId;
+        history.timestamp = block.timestamp;
+        
+        euint32 zero = FHE.asEuint32(0);
+        euint32 category = FHE.fromExternal(encryptedCategory, inputProof);
+        euint32 articleSentiment = FHE.fromExternal(sentiment, inputProof);
+        euint32 one = FHE.asEuint32(1);
+        for (uint i = 0; i < history.categoryScores.length; i++) {
+            ebool matches = FHE.eq(category, uint32(i));
+            history.categoryScores[i] = FHE.add(history.categoryScores[i], FHE.select(matches, one, zero));
+            history.sentimentScores[i] = FHE.add(history.sentimentScores[i], FHE.select(matches, articleSentiment, zero));
+        }
+        history.articleIds.push(FHE.fromExternal(articleId, inputProof));
+        
+        // Only the handles this append created need granting
+        FHE.allowThis(history.articleIds[history.articleIds.length - 1]);
+        FHE.allow(history.articleIds[history.articleIds.length - 1], msg.sender);
+        _allow(history.categoryScores, msg.sender);
+        _allow(history.sentimentScores, msg.sender);
+        historyRevisions[userId]++;
+        
+        emit ArticleAppended(userId, history.articleIds.length);
+    }
+    
     /// @notice Request filter bubble analysis
+    /// @dev A history recorded before categories were added is migrated first, so it covers every category
     function requestAnalysis(uint256 userId) public onlyUser(userId) {
         require(userReadingHistory[userId].timestamp > 0, "No reading history");
+        _migrateHistory(userId);
         
         emit AnalysisRequested(userId);
     }
@@ -91,38 +253,70 @@ contract BubbleAnalytics is SepoliaConfig {
     /// @notice Store encrypted analysis results
     function storeAnalysisResults(
         uint256 userId,
-        euint32 diversityScore,
-        euint32[] memory biasVector,
-        euint32[] memory recommendedArticles
-    ) public {
+        externalEuint32 diversityScore,
+        externalEuint32[] calldata biasVector,
+        externalEuint32[] calldata recommendedArticles,
+        bytes calldata inputProof
+    ) public onlyAnalyzer {
+        require(userWallets[userId] != address(0), "User not registered");
         require(
             biasVector.length == categories.length,
             "Invalid bias vector length"
         );
         
         analysisResults[userId] = BubbleAnalysis({
-            diversityScore: diversityScore,
-            biasVector: biasVector,
-            recommendedArticles: recommendedArticles,
+            diversityScore: FHE.fromExternal(diversityScore, inputProof),
+            biasVector: _fromExternal(biasVector, inputProof),
+            recommendedArticles: _fromExternal(recommendedArticles, inputProof),
             isComplete: true
         });
         
-        decryptedResults[userId] = DecryptedResult({
-            diversityScore: 0,
-            biasVector: new uint32[](0),
-            recommendedArticles: new uint32[](0),
-            isRevealed: false
-        });
+        _allowResult(userId, userWallets[userId]);
+        _resetDecryptedResult(userId);
+        resultVersions[userId]++;
+        // A calculation in progress would otherwise carry on into the stored result
+        delete analysisCalculations[userId];
         
         emit AnalysisCompleted(userId);
     }
     
+    /// @notice Grant the caller ACL access to the analysis result for EIP-712 user decryption
+    /// @dev Nothing is revealed on-chain: only the caller's own keypair can decrypt the handles.
+    ///      Results are already granted to the registered wallet when stored, so this only repeats that grant.
+    function grantResultAccess(uint256 userId) public onlyUser(userId) {
+        BubbleAnalysis storage result = analysisResults[userId];
+        require(result.isComplete, "Analysis not complete");
+        
+        FHE.allow(result.diversityScore, msg.sender);
+        for (uint i = 0; i < result.biasVector.length; i++) {
+            FHE.allow(result.biasVector[i], msg.sender);
+        }
+        for (uint i = 0; i < result.recommendedArticles.length; i++) {
+            FHE.allow(result.recommendedArticles[i], msg.sender);
+        }
+        
+        emit ResultAccessGranted(userId, msg.sender);
+    }
+    
     /// @notice Request decryption of analysis results
+    /// @dev Can be made again once the previous request has gone unanswered for decryptionTimeout, or at once
+    ///      when the result was replaced since: the answer to that request is then ignored
     function requestResultDecryption(uint256 userId) public onlyUser(userId) {
         BubbleAnalysis storage result = analysisResults[userId];
         require(result.isComplete, "Analysis not complete");
         require(!decryptedResults[userId].isRevealed, "Already revealed");
         
+        uint256[] storage previous = userDecryptionRequests[userId];
+        if (previous.length > 0) {
+            DecryptionRequest storage last = decryptionRequests[previous[previous.length - 1]];
+            require(
+                last.fulfilled ||
+                    last.resultVersion != resultVersions[userId] ||
+                    block.timestamp >= last.requestedAt + decryptionTimeout,
+                "Decryption already pending"
+            );
+        }
+        
         // Prepare all ciphertexts for decryption
         uint256 totalElements = 1 + result.biasVector.length + result.recommendedArticles.length;
         bytes32[] memory ciphertexts = new bytes32[](totalElements);
@@ -140,7 +334,16 @@ contract BubbleAnalytics is SepoliaConfig {
         
         // Request decryption
         uint256 reqId = FHE.requestDecryption(ciphertexts, this.decryptAnalysisResult.selector);
-        requestToUserId[reqId] = userId;
+        decryptionRequests[reqId] = DecryptionRequest({
+            userId: userId,
+            requestedAt: block.timestamp,
+            fulfilled: false,
+            resultVersion: resultVersions[userId],
+            handles: ciphertexts
+        });
+        userDecryptionRequests[userId].push(reqId);
+        
+        emit DecryptionRequested(userId, reqId, block.timestamp);
     }
     
     /// @notice Callback for decrypted analysis results
@@ -149,18 +352,30 @@ contract BubbleAnalytics is SepoliaConfig {
         bytes memory cleartexts,
         bytes memory proof
     ) public {
-        uint256 userId = requestToUserId[requestId];
+        DecryptionRequest storage request = decryptionRequests[requestId];
+        uint256 userId = request.userId;
         require(userId != 0, "Invalid request");
         
         BubbleAnalysis storage aResult = analysisResults[userId];
         DecryptedResult storage dResult = decryptedResults[userId];
-        require(!dResult.isRevealed, "Already revealed");
         
         // Verify decryption proof
         FHE.checkSignatures(requestId, cleartexts, proof);
+        request.fulfilled = true;
         
-        // Process decrypted values
-        uint32[] memory results = abi.decode(cleartexts, (uint32[]));
+        // A re-request made after a timeout may be answered after the original one, and a result replaced
+        // while its request was pending must not be overwritten with the old values
+        if (dResult.isRevealed || request.resultVersion != resultVersions[userId]) {
+            return;
+        }
+        
+        // Cleartexts are the values abi-encoded one word each, in request order;
+        // prefixing an offset and a length lets them decode as a single array
+        uint256 count = request.handles.length;
+        uint32[] memory results = abi.decode(
+            abi.encodePacked(uint256(32), count, cleartexts),
+            (uint32[])
+        );
         
         dResult.diversityScore = results[0];
         
@@ -182,77 +397,139 @@ contract BubbleAnalytics is SepoliaConfig {
         emit ResultRevealed(userId);
     }
     
-    /// @notice Calculate encrypted diversity score
-    function calculateDiversityScore(uint256 userId) public view returns (euint32) {
+    /// @notice Calculate the analysis of a history on-chain, instead of having an analyzer store it
+    /// @dev The whole calculation exceeds the HCU limit of one transaction, so it runs in steps: the first
+    ///      calculates the diversity score and recommendations, each further one the bias of up to
+    ///      BIAS_CATEGORIES_PER_STEP categories. Call it until AnalysisCompleted is emitted; a history that
+    ///      changes in between restarts the calculation. frontend/web/src/analytics.ts mirrors the formulas.
+    function calculateAnalysis(uint256 userId) public onlyUser(userId) {
+        require(userReadingHistory[userId].timestamp > 0, "No reading history");
+        _migrateHistory(userId);
         EncryptedReadingHistory storage history = userReadingHistory[userId];
-        require(history.timestamp > 0, "No reading history");
-        
-        // Simplified diversity calculation: entropy of category distribution
-        euint32 total = FHE.asEuint32(0);
-        euint32 sumSquares = FHE.asEuint32(0);
+        AnalysisCalculation storage calculation = analysisCalculations[userId];
+        BubbleAnalysis storage result = analysisResults[userId];
+        address owner = userWallets[userId];
         
-        for (uint i = 0; i < history.categoryScores.length; i++) {
-            total = FHE.add(total, history.categoryScores[i]);
+        if (calculation.historyRevision != historyRevisions[userId] || result.biasVector.length != categories.length) {
+            result.diversityScore = _diversityScore(history.categoryScores);
+            result.recommendedArticles = _recommendations(history.categoryScores);
+            result.biasVector = new euint32[](categories.length);
+            result.isComplete = false;
+            resultVersions[userId]++;
+            // A revealed result belongs to the history being replaced
+            _resetDecryptedResult(userId);
+            FHE.allowThis(result.diversityScore);
+            FHE.allow(result.diversityScore, owner);
+            _allow(result.recommendedArticles, owner);
+            
+            analysisCalculations[userId] = AnalysisCalculation({
+                historyRevision: historyRevisions[userId],
+                nextCategory: 0
+            });
+            emit AnalysisCalculationProgress(userId, 0, categories.length);
+            return;
         }
         
-        for (uint i = 0; i < history.categoryScores.length; i++) {
-            euint32 proportion = FHE.div(history.categoryScores[i], total);
-            euint32 squared = FHE.mul(proportion, proportion);
-            sumSquares = FHE.add(sumSquares, squared);
+        uint256 end = calculation.nextCategory + BIAS_CATEGORIES_PER_STEP;
+        if (end > categories.length) {
+            end = categories.length;
         }
+        for (uint i = calculation.nextCategory; i < end; i++) {
+            result.biasVector[i] = _bias(history.categoryScores[i], history.sentimentScores[i]);
+            FHE.allowThis(result.biasVector[i]);
+            FHE.allow(result.biasVector[i], owner);
+        }
+        calculation.nextCategory = end;
+        emit AnalysisCalculationProgress(userId, end, categories.length);
         
-        // Diversity = 1 - sum(proportion^2)
-        return FHE.sub(FHE.asEuint32(100), FHE.mul(sumSquares, FHE.asEuint32(100)));
+        if (end == categories.length) {
+            result.isComplete = true;
+            delete analysisCalculations[userId];
+            _resetDecryptedResult(userId);
+            emit AnalysisCompleted(userId);
+        }
     }
     
-    /// @notice Calculate encrypted bias vector
-    function calculateBiasVector(uint256 userId) public view returns (euint32[] memory) {
-        EncryptedReadingHistory storage history = userReadingHistory[userId];
-        require(history.timestamp > 0, "No reading history");
-        
-        euint32[] memory biasVector = new euint32[](categories.length);
-        euint32 totalSentiment = FHE.asEuint32(0);
+    /// @dev Normalised Gini-Simpson index, 100 * k / (k - 1) * (1 - sum(c_i^2) / T^2) for k categories read
+    ///      c_i times out of T, from 0 for a single category to 100 for an even spread. It is kept as one
+    ///      fraction so nothing truncates before the final, rounded division. euint64 holds the products for
+    ///      histories of under 2^24 articles. An empty history scores 0.
+    function _diversityScore(euint32[] storage counts) private returns (euint32) {
+        uint64 k = uint64(counts.length);
+        euint64[] memory totals = new euint64[](counts.length);
+        euint64[] memory squares = new euint64[](counts.length);
+        for (uint i = 0; i < counts.length; i++) {
+            totals[i] = FHE.asEuint64(counts[i]);
+            squares[i] = FHE.mul(totals[i], totals[i]);
+        }
+        euint64 total = _sum(totals);
+        euint64 totalSquared = FHE.mul(total, total);
         
-        // Calculate total sentiment
-        for (uint i = 0; i < history.sentimentScores.length; i++) {
-            totalSentiment = FHE.add(totalSentiment, history.sentimentScores[i]);
+        euint64 score = _divide(
+            FHE.mul(FHE.sub(totalSquared, _sum(squares)), 100 * k),
+            FHE.mul(totalSquared, k - 1),
+            7
+        );
+        score = FHE.select(FHE.eq(total, uint64(0)), FHE.asEuint64(0), FHE.min(score, uint64(100)));
+        return FHE.asEuint32(score);
+    }
+    
+    /// @dev Mean sentiment of the category's articles, rounded, or a neutral 50 for a category without reads
+    function _bias(euint32 count, euint32 sentiment) private returns (euint32) {
+        euint32 mean = FHE.min(_divide(sentiment, count, 7), uint32(100));
+        return FHE.select(FHE.eq(count, uint32(0)), FHE.asEuint32(50), mean);
+    }
+    
+    /// @dev Three placeholder article ids from the least-read category, the first such category on ties
+    function _recommendations(euint32[] storage counts) private returns (euint32[] memory recommendations) {
+        euint32 minCount = counts[0];
+        euint32 minIndex = FHE.asEuint32(0);
+        for (uint i = 1; i < counts.length; i++) {
+            ebool isSmaller = FHE.lt(counts[i], minCount);
+            minCount = FHE.select(isSmaller, counts[i], minCount);
+            minIndex = FHE.select(isSmaller, FHE.asEuint32(uint32(i)), minIndex);
         }
         
-        // Calculate average sentiment per category
-        for (uint i = 0; i < categories.length; i++) {
-            if (FHE.gt(history.categoryScores[i], FHE.asEuint32(0))) {
-                biasVector[i] = FHE.div(
-                    FHE.mul(history.sentimentScores[i], FHE.asEuint32(100)),
-                    totalSentiment
-                );
-            } else {
-                biasVector[i] = FHE.asEuint32(50); // Neutral if no data
+        euint32 base = FHE.mul(minIndex, uint32(1000));
+        recommendations = new euint32[](3);
+        for (uint32 j = 0; j < 3; j++) {
+            recommendations[j] = FHE.add(base, j + 1);
+        }
+    }
+    
+    /// @dev Pairwise, so the HCU depth grows with the logarithm of the number of values
+    function _sum(euint64[] memory values) private returns (euint64) {
+        for (uint width = 1; width < values.length; width *= 2) {
+            for (uint i = 0; i + width < values.length; i += 2 * width) {
+                values[i] = FHE.add(values[i], values[i + width]);
             }
         }
-        
-        return biasVector;
+        return values[0];
     }
     
-    /// @notice Generate encrypted recommendations
-    function generateRecommendations(uint256 userId) public view returns (euint32[] memory) {
-        euint32[] memory recommendations = new euint32[](3);
-        
-        // Simplified: recommend articles from least represented categories
-        euint32 minScore = FHE.asEuint32(100);
-        uint256 minIndex = 0;
-        
-        for (uint i = 0; i < categories.length; i++) {
-            ebool isSmaller = FHE.lt(userReadingHistory[userId].categoryScores[i], minScore);
-            minScore = FHE.select(isSmaller, userReadingHistory[userId].categoryScores[i], minScore);
-            minIndex = FHE.select(isSmaller, i, minIndex);
+    /// @dev FHE.div only takes plaintext divisors, so an encrypted divisor goes through restoring long division:
+    ///      a comparison and two selects per quotient bit, rounded to nearest by adding half the divisor first.
+    ///      Quotients of 2^bits or more saturate at 2^bits - 1, and so does a zero divisor.
+    function _divide(euint64 numerator, euint64 divisor, uint8 bits) private returns (euint64 quotient) {
+        euint64 remainder = FHE.add(numerator, FHE.shr(divisor, uint8(1)));
+        quotient = FHE.asEuint64(0);
+        for (uint8 b = bits; b > 0; b--) {
+            euint64 shifted = FHE.shl(divisor, b - 1);
+            ebool fits = FHE.ge(remainder, shifted);
+            remainder = FHE.select(fits, FHE.sub(remainder, shifted), remainder);
+            quotient = FHE.select(fits, FHE.or(quotient, uint64(1) << (b - 1)), quotient);
+        }
+    }
+    
+    function _divide(euint32 numerator, euint32 divisor, uint8 bits) private returns (euint32 quotient) {
+        euint32 remainder = FHE.add(numerator, FHE.shr(divisor, uint8(1)));
+        quotient = FHE.asEuint32(0);
+        for (uint8 b = bits; b > 0; b--) {
+            euint32 shifted = FHE.shl(divisor, b - 1);
+            ebool fits = FHE.ge(remainder, shifted);
+            remainder = FHE.select(fits, FHE.sub(remainder, shifted), remainder);
+            quotient = FHE.select(fits, FHE.or(quotient, uint32(1) << (b - 1)), quotient);
         }
-        
-        // Recommend articles from the least represented category
-        recommendations[0] = FHE.asEuint32(minIndex * 1000 + 1);
-        recommendations[1] = FHE.asEuint32(minIndex * 1000 + 2);
-        recommendations[2] = FHE.asEuint32(minIndex * 1000 + 3);
-        
-        return recommendations;
     }
     
     /// @notice Get encrypted reading history
@@ -288,10 +565,127 @@ contract BubbleAnalytics is SepoliaConfig {
         return (r.diversityScore, r.biasVector, r.recommendedArticles, r.isRevealed);
     }
     
+    /// @notice Get the ids of a user's decryption requests, oldest first
+    function getDecryptionRequests(uint256 userId) public view returns (uint256[] memory) {
+        return userDecryptionRequests[userId];
+    }
+    
+    /// @notice Get all category names, in category index order
+    function getCategories() public view returns (string[] memory) {
+        return categories;
+    }
+    
     /// @notice Add new category
-    function addCategory(string memory category) public {
-        require(categoryIndex[category] == 0, "Category already exists");
+    /// @dev Existing histories keep their shorter score arrays until migrated, see migrateHistories
+    function addCategory(string memory category) public onlyAdmin {
+        require(bytes(category).length > 0, "Empty category");
+        require(!_hasCategory(category), "Category already exists");
+        require(categories.length < MAX_CATEGORIES, "Too many categories");
         categories.push(category);
         categoryIndex[category] = categories.length - 1;
+        categoriesVersion++;
+        emit CategoryAdded(categories.length - 1, category, categoriesVersion);
+    }
+    
+    /// @notice Pad histories recorded under an older category list with encrypted zeros for the added categories
+    /// @dev Anyone may call this: it only appends encrypted zeros. Users without a history are skipped.
+    function migrateHistories(uint256[] calldata userIds) public {
+        for (uint i = 0; i < userIds.length; i++) {
+            if (userReadingHistory[userIds[i]].timestamp > 0) {
+                _migrateHistory(userIds[i]);
+            }
+        }
+    }
+    
+    /// @notice Whether a user's history covers every category in the registry
+    function isHistoryCurrent(uint256 userId) public view returns (bool) {
+        return userReadingHistory[userId].categoriesVersion == categoriesVersion;
+    }
+    
+    /// @dev Registers an unregistered userId to the sender, then requires the sender to own it
+    function _claimUser(uint256 userId) private {
+        if (userWallets[userId] == address(0)) {
+            _registerUser(userId, msg.sender);
+        }
+        require(userWallets[userId] == msg.sender, "Not the registered wallet");
+    }
+    
+    function _registerUser(uint256 userId, address wallet) private {
+        // Never 0 either, which marks an unknown request in decryptionRequests
+        require(userId == uint256(uint160(wallet)), "User id is not the caller's address");
+        require(userWallets[userId] == address(0), "User already registered");
+        userWallets[userId] = wallet;
+        emit UserRegistered(userId, wallet);
+    }
+    
+    function _migrateHistory(uint256 userId) private {
+        EncryptedReadingHistory storage history = userReadingHistory[userId];
+        if (history.categoriesVersion == categoriesVersion) {
+            return;
+        }
+        
+        euint32 zero = FHE.asEuint32(0);
+        FHE.allowThis(zero);
+        FHE.allow(zero, userWallets[userId]);
+        while (history.categoryScores.length < categories.length) {
+            history.categoryScores.push(zero);
+            history.sentimentScores.push(zero);
+        }
+        history.categoriesVersion = categoriesVersion;
+        historyRevisions[userId]++;
+        
+        if (history.timestamp > 0) {
+            emit HistoryMigrated(userId, categoriesVersion);
+        }
+    }
+    
+    /// @dev categoryIndex defaults to 0, so the stored name must match to tell a miss from the first category
+    function _hasCategory(string memory category) private view returns (bool) {
+        uint256 index = categoryIndex[category];
+        return index < categories.length &&
+            keccak256(bytes(categories[index])) == keccak256(bytes(category));
+    }
+    
+    function _fromExternal(
+        externalEuint32[] calldata inputs,
+        bytes calldata inputProof
+    ) private returns (euint32[] memory values) {
+        values = new euint32[](inputs.length);
+        for (uint i = 0; i < inputs.length; i++) {
+            values[i] = FHE.fromExternal(inputs[i], inputProof);
+        }
+    }
+    
+    /// @dev Every stored handle is granted to this contract, to keep using it in later transactions,
+    ///      and to the owning wallet, to decrypt it with its own keypair
+    function _allowHistory(uint256 userId, address owner) private {
+        EncryptedReadingHistory storage history = userReadingHistory[userId];
+        _allow(history.articleIds, owner);
+        _allow(history.categoryScores, owner);
+        _allow(history.sentimentScores, owner);
+    }
+    
+    function _resetDecryptedResult(uint256 userId) private {
+        decryptedResults[userId] = DecryptedResult({
+            diversityScore: 0,
+            biasVector: new uint32[](0),
+            recommendedArticles: new uint32[](0),
+            isRevealed: false
+        });
+    }
+    
+    function _allowResult(uint256 userId, address owner) private {
+        BubbleAnalysis storage result = analysisResults[userId];
+        FHE.allowThis(result.diversityScore);
+        FHE.allow(result.diversityScore, owner);
+        _allow(result.biasVector, owner);
+        _allow(result.recommendedArticles, owner);
+    }
+    
+    function _allow(euint32[] storage values, address owner) private {
+        for (uint i = 0; i < values.length; i++) {
+            FHE.allowThis(values[i]);
+            FHE.allow(values[i], owner);
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+// Key-value store for the public part of article records and their per-writer indexes,
+// see frontend/web/src/bubbleRepository.ts
+contract UniversalAdapter {
+    mapping(string => bytes) private data;
+
+    event DataStored(address indexed sender, string key, bytes value);
+
+    function setData(string calldata key, bytes calldata value) external {
+        data[key] = value;
+        emit DataStored(msg.sender, key, value);
+    }
+
+    function getData(string calldata key) external view returns (bytes memory) {
+        return data[key];
+    }
+
+    function isAvailable() external pure returns (bool) {
+        return true;
+    }
+}
@@ -1,390 +1,172 @@
 // deploy/deploy.ts
+import { execSync } from "child_process";
 import fs from "fs";
 import path from "path";
-import readline from "readline";
-import { ethers as hardhatEthers } from "hardhat";
-import { Wallet, JsonRpcProvider } from "ethers";
-
-
-const WORD_LIBRARY = [
-
-  'api', 'app', 'auth', 'backend', 'config', 'controller', 'database', 'endpoint',
-  'frontend', 'gateway', 'handler', 'interface', 'middleware', 'model', 'module',
-  'provider', 'router', 'service', 'util', 'validator', 'adapter', 'bridge',
-  'decorator', 'factory', 'manager', 'registry', 'resolver', 'serializer',
-  
-
-  'user', 'account', 'profile', 'payment', 'order', 'product', 'inventory',
-  'customer', 'admin', 'notification', 'message', 'email', 'sms', 'upload',
-  'download', 'export', 'import', 'report', 'analytics', 'statistics',
-  
-
-  'types', 'constants', 'helpers', 'hooks', 'styles', 'components', 'layouts',
-  'pages', 'routes', 'queries', 'mutations', 'subscriptions', 'fragments',
-  
-
-  'main', 'common', 'shared', 'global', 'local', 'base', 'core', 'advanced',
-  'simple', 'complex', 'dynamic', 'static', 'responsive', 'adaptive', 'secure',
-  
-  'utils', 'lib', 'src', 'dist', 'build', 'test', 'spec', 'mock', 'fixture',
-  'example', 'demo', 'template', 'boilerplate', 'configuration', 'environment'
-];
-
-
-const FILE_EXTENSIONS = {
-  code: ['.ts', '.js', '.tsx', '.jsx', '.sol', '.java', '.py', '.rs', '.go'],
-  config: ['.json', '.yaml', '.yml', '.toml', '.ini', '.env'],
-  docs: ['.md', '.txt', '.rst', '.adoc'],
-  styles: ['.css', '.scss', '.sass', '.less', '.styl']
-};
-
-const DIFF_CONFIG = {
-  minFolders: 3,
-  maxFolders: 8,
-  minFilesPerFolder: 1,
-  maxFilesPerFolder: 5,
-  maxDepth: 3
-};
-
-interface GeneratedFile {
-  path: string;
-  type: 'file' | 'folder';
-  content?: string;
+import "dotenv/config";
+import { artifacts, ethers as hardhatEthers, network } from "hardhat";
+import type { HttpNetworkConfig } from "hardhat/types";
+import { Wallet, JsonRpcProvider, Signer, getCreateAddress } from "ethers";
+import {
+  ContractDeployment,
+  FRONTEND_SRC_DIR,
+  LOCAL_CHAIN_ID,
+  MANIFEST_PATH,
+  PROJECT_ROOT,
+  abiHash,
+  readManifest,
+  relative,
+  writeManifest,
+} from "./manifest";
+
+const LOCAL_RPC_URL = "http://127.0.0.1:8545";
+
+// Deployed in order; each gets a manifest entry and an ABI copy for the frontend
+const CONTRACTS = ["UniversalAdapter", "BubbleAnalytics"];
+
+// Flags only reach the script when it is run directly, e.g.
+//   HARDHAT_NETWORK=sepolia npx ts-node deploy/deploy.ts --private-key 0x... --rpc https://...
+function flag(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i >= 0 ? process.argv[i + 1] : undefined;
 }
 
-class DifferentialGenerator {
-  private cacheFile: string;
-  private projectRoot: string;
-  private existingPaths: Set<string>;
-
-  constructor(projectRoot: string) {
-    this.projectRoot = projectRoot;
-    this.cacheFile = path.join(projectRoot, '.diffcache');
-    this.existingPaths = this.getAllExistingPaths();
-  }
-
-  private getAllExistingPaths(): Set<string> {
-    const paths = new Set<string>();
-    
-    const scanDirectory = (dir: string) => {
-      try {
-        const items = fs.readdirSync(dir);
-        for (const item of items) {
-          if (item === '.diffcache') continue; 
-          
-          const fullPath = path.join(dir, item);
-          const relativePath = path.relative(this.projectRoot, fullPath);
-          paths.add(relativePath);
-          
-          if (fs.statSync(fullPath).isDirectory()) {
-            scanDirectory(fullPath);
-          }
-        }
-      } catch (error) {
-
-      }
-    };
-    
-    scanDirectory(this.projectRoot);
-    return paths;
-  }
-
-  private getRandomItem<T>(array: T[]): T {
-    return array[Math.floor(Math.random() * array.length)];
-  }
-
-  private generateFileName(): string {
-    const wordCount = Math.floor(Math.random() * 3) + 1;
-    const words: string[] = [];
-    
-    for (let i = 0; i < wordCount; i++) {
-      words.push(this.getRandomItem(WORD_LIBRARY));
-    }
-    
-    return words.join('-');
-  }
-
-  private generateFileExtension(): string {
-    const extTypes = Object.values(FILE_EXTENSIONS).flat();
-    return this.getRandomItem(extTypes);
-  }
-
-  private generateFolderName(): string {
-    return this.generateFileName();
-  }
-
-  private generateFileContent(filePath: string): string {
-    const ext = path.extname(filePath);
-    
-    switch (ext) {
-      case '.ts':
-      case '.js':
-      case '.tsx':
-      case '.jsx':
-        return this.generateTypeScriptContent();
-      case '.json':
-        return this.generateJSONContent();
-      case '.md':
-        return this.generateMarkdownContent();
-      case '.css':
-      case '.scss':
-        return this.generateStyleContent();
-      case '.sol':
-        return this.generateSolidityContent();
-      default:
-        return `// Auto-generated file: ${filePath}\n// Generated at: ${new Date().toISOString()}`;
-    }
-  }
+function switchOn(name: string, envName: string): boolean {
+  return process.argv.includes(`--${name}`) || ["1", "true"].includes(process.env[envName] ?? "");
+}
 
-  private generateTypeScriptContent(): string {
-    const imports = [
-      "import React from 'react';",
-      "import { useState, useEffect } from 'react';",
-      "import { ethers } from 'ethers';",
-      "import axios from 'axios';",
-      "export const config = { runtime: 'edge' };"
-    ];
-    
-    const contents = [
-      `export const ${this.generateFileName()} = () => { return null; };`,
-      `export default function ${this.generateFileName()}() { return <div>Component</div>; }`,
-      `export const use${this.generateFileName()} = () => { return {}; };`,
-      `interface ${this.generateFileName()}Props { data: string }`
-    ];
-    
-    return `${this.getRandomItem(imports)}\n\n${this.getRandomItem(contents)}\n`;
-  }
+// Build outputs that compiling and the fhevm plugin regenerate on every run; the deployment:verify report is ignored
+const GENERATED_PATHS = ["artifacts/", "cache/", "fhevmTemp/", "types/"];
 
-  private generateJSONContent(): string {
-    const configs = {
-      settings: { theme: "dark", language: "en" },
-      dependencies: { [this.generateFileName()]: "^1.0.0" },
-      rules: { [this.generateFileName()]: "warn" }
-    };
-    
-    return JSON.stringify(this.getRandomItem(Object.values(configs)), null, 2);
+// Lists uncommitted changes outside generated paths, or null outside a git checkout
+function uncommittedChanges(): string[] | null {
+  try {
+    const status = execSync("git status --porcelain", { cwd: PROJECT_ROOT, encoding: "utf8" });
+    return status
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .filter((line) => !GENERATED_PATHS.some((prefix) => line.slice(3).startsWith(prefix)));
+  } catch {
+    return null;
   }
+}
 
-  private generateMarkdownContent(): string {
-    return `# ${this.generateFileName()}\n\nThis is an auto-generated documentation file.\n\n## Usage\n\nExample usage goes here.\n\n## Configuration\n\nAdd your configuration details here.`;
+// Starting from a clean tree means the deploy's own outputs are the only diff left to review and commit
+function assertCleanWorkspace(allowDirty: boolean) {
+  const changes = uncommittedChanges();
+  if (changes === null) {
+    console.warn("Not a git checkout; skipping the clean workspace check");
+    return;
   }
+  if (changes.length === 0) return;
 
-  private generateStyleContent(): string {
-    return `.${this.generateFileName()} {\n  margin: 0;\n  padding: 1rem;\n  background-color: #fff;\n}\n\n.container {\n  max-width: 1200px;\n  margin: 0 auto;\n}`;
+  const message = `Workspace has uncommitted changes:\n  ${changes.join("\n  ")}`;
+  if (!allowDirty) {
+    throw new Error(`${message}\nCommit or stash them first, or set ALLOW_DIRTY=1 (--allow-dirty)`);
   }
+  console.warn(`${message}\nContinuing because dirty workspaces are allowed`);
+}
 
-  private generateSolidityContent(): string {
-    return `// SPDX-License-Identifier: MIT\npragma solidity ^0.8.0;\n\ncontract ${this.generateFileName()} {\n    address public owner;\n    \n    constructor() {\n        owner = msg.sender;\n    }\n    \n    function dummy() public pure returns (uint256) {\n        return 42;\n    }\n}`;
-  }
+// The RPC URL is used to connect only and never recorded, since it may carry a provider API key
+async function resolveDeployer(): Promise<Signer> {
+  const privateKey = flag("private-key") ?? process.env.DEPLOYER_PRIVATE_KEY;
+  const rpc = flag("rpc") ?? process.env.RPC_URL ?? (network.config as HttpNetworkConfig).url ?? LOCAL_RPC_URL;
 
-  private generateUniquePath(baseDir: string, isFile: boolean = true): string {
-    let attempts = 0;
-    let fullPath: string;
-    let relativePath: string;
-    
-    do {
-      const name = isFile ? 
-        `${this.generateFileName()}${this.generateFileExtension()}` : 
-        this.generateFolderName();
-      
-      fullPath = path.join(baseDir, name);
-      relativePath = path.relative(this.projectRoot, fullPath);
-      attempts++;
-    } while (this.existingPaths.has(relativePath) && attempts < 50);
-    
-    this.existingPaths.add(relativePath);
-    return fullPath;
+  if (privateKey) {
+    return new Wallet(privateKey, new JsonRpcProvider(rpc));
   }
 
-  private cleanPreviousFiles(): void {
-    if (!fs.existsSync(this.cacheFile)) {
-      console.log("No previous differential files to clean.");
-      return;
-    }
-
-    try {
-      const previousFiles = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8')) as string[];
-      console.log(`Cleaning ${previousFiles.length} previous differential files...`);
-      
-      for (const filePath of previousFiles) {
-        try {
-          if (fs.existsSync(filePath)) {
-            fs.unlinkSync(filePath);
-            console.log(`Deleted: ${filePath}`);
-
-            let dir = path.dirname(filePath);
-            while (dir !== this.projectRoot) {
-              try {
-                const files = fs.readdirSync(dir);
-                if (files.length === 0) {
-                  fs.rmdirSync(dir);
-                  console.log(`Removed empty directory: ${dir}`);
-                  dir = path.dirname(dir);
-                } else {
-                  break;
-                }
-              } catch (error) {
-                break;
-              }
-            }
-          }
-        } catch (error) {
-          console.warn(`Failed to delete ${filePath}:`, error);
-        }
-      }
-      
-
-      fs.unlinkSync(this.cacheFile);
-    } catch (error) {
-      console.warn("Error cleaning previous files:", error);
-    }
+  // A local Hardhat node comes with funded accounts, so no key is needed
+  const { chainId } = await hardhatEthers.provider.getNetwork();
+  if (Number(chainId) === LOCAL_CHAIN_ID) {
+    const [deployer] = await hardhatEthers.getSigners();
+    return deployer;
   }
+  throw new Error(`No deployer key for network "${network.name}": set DEPLOYER_PRIVATE_KEY or pass --private-key`);
+}
 
-  public generateDifferentialFiles(): string[] {
-    this.cleanPreviousFiles();
-    
-    const generatedFiles: string[] = [];
-    const folderCount = Math.floor(Math.random() * (DIFF_CONFIG.maxFolders - DIFF_CONFIG.minFolders + 1)) + DIFF_CONFIG.minFolders;
-    
-    console.log(`Generating ${folderCount} differential folders...`);
-    
-    const generateInDirectory = (currentDir: string, depth: number = 0): void => {
-      if (depth > DIFF_CONFIG.maxDepth) return;
-      
-
-      const fileCount = Math.floor(Math.random() * (DIFF_CONFIG.maxFilesPerFolder - DIFF_CONFIG.minFilesPerFolder + 1)) + DIFF_CONFIG.minFilesPerFolder;
-      
-      for (let i = 0; i < fileCount; i++) {
-        const filePath = this.generateUniquePath(currentDir, true);
-        
-        try {
-          fs.mkdirSync(path.dirname(filePath), { recursive: true });
-          const content = this.generateFileContent(filePath);
-          fs.writeFileSync(filePath, content);
-          generatedFiles.push(filePath);
-          console.log(`Created: ${filePath}`);
-        } catch (error) {
-          console.warn(`Failed to create file ${filePath}:`, error);
-        }
-      }
-      
-
-      if (depth < DIFF_CONFIG.maxDepth && Math.random() > 0.5) {
-        const subFolderPath = this.generateUniquePath(currentDir, false);
-        
-        try {
-          fs.mkdirSync(subFolderPath, { recursive: true });
-          generatedFiles.push(subFolderPath);
-          console.log(`Created folder: ${subFolderPath}`);
-          generateInDirectory(subFolderPath, depth + 1);
-        } catch (error) {
-          console.warn(`Failed to create folder ${subFolderPath}:`, error);
-        }
-      }
-    };
-    
 
-    const baseDirs = [
-      this.projectRoot,
-      path.join(this.projectRoot, 'src'),
-      path.join(this.projectRoot, 'frontend', 'web', 'src')
-    ];
-    
-    for (const baseDir of baseDirs) {
-      if (fs.existsSync(baseDir)) {
-        for (let i = 0; i < Math.ceil(folderCount / baseDirs.length); i++) {
-          generateInDirectory(baseDir);
-        }
-      }
-    }
-    
+async function deployContract(name: string, deployer: Signer): Promise<ContractDeployment> {
+  const factory = await hardhatEthers.getContractFactory(name, deployer);
+  const contract = await factory.deploy();
+  const tx = contract.deploymentTransaction();
+  const receipt = await tx?.wait();
+  if (!tx || !receipt) throw new Error(`${name} deployment transaction was dropped`);
 
-    if (generatedFiles.length > 0) {
-      fs.writeFileSync(this.cacheFile, JSON.stringify(generatedFiles, null, 2));
-      console.log(`Generated ${generatedFiles.length} differential files. Cache saved to: ${this.cacheFile}`);
-    }
-    
-    return generatedFiles;
-  }
-}
-
-async function ask(prompt: string): Promise<string> {
-  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
-  return new Promise<string>((resolve) =>
-    rl.question(prompt, (ans) => {
-      rl.close();
-      resolve(ans.trim());
-    })
-  );
+  const address = await contract.getAddress();
+  console.log(`${name} deployed at ${address} (block ${receipt.blockNumber}, tx ${tx.hash})`);
+  return { address, txHash: tx.hash, blockNumber: receipt.blockNumber, abiHash: abiHash(factory.interface) };
 }
 
 async function main() {
-  const projectRoot = path.join(__dirname, "..");
-  
-
-  console.log("=== Generating Differential Files ===");
-  const generator = new DifferentialGenerator(projectRoot);
-  generator.generateDifferentialFiles();
-  console.log("=== Differential Files Generation Complete ===\n");
-
-
-  const privateKey = await ask("Enter the deployer private key (testnet only): ");
-  let rpc = await ask("Enter the RPC URL (press Enter to use public Sepolia: https://sepolia.drpc.org): ");
-  if (!rpc) rpc = "https://sepolia.drpc.org";
-
-  const provider = new JsonRpcProvider(rpc);
-  const wallet = new Wallet(privateKey, provider);
-
-  console.log("Deployer account:", wallet.address);
-
-  // Deploy the plain UniversalAdapter contract
-  const UniversalAdapterFactory = await hardhatEthers.getContractFactory("UniversalAdapter", wallet);
-  const factory = await UniversalAdapterFactory.deploy();
-  await factory.waitForDeployment();
-
-  const deployedAddress = (factory as any).target || (factory as any).address;
-  console.log("UniversalAdapter contract deployed at:", deployedAddress);
-
-  // Write config for the frontend
-  const frontendConfigDir = path.join(__dirname, "..", "frontend", "web", "src");
-  if (!fs.existsSync(frontendConfigDir)) {
-    console.warn("Frontend src directory not found, skipping config.json write:", frontendConfigDir);
-  } else {
-    const config = {
-      network: rpc,
-      contractAddress: deployedAddress,
-      deployer: wallet.address,
-    };
-    fs.writeFileSync(
-      path.join(frontendConfigDir, "config.json"),
-      JSON.stringify(config, null, 2)
-    );
-    console.log("Wrote frontend config: frontend/web/src/config.json");
-
-    // Copy ABI to the frontend
-    try {
-      const artifactPath = path.join(
-        __dirname,
-        "..",
-        "artifacts",
-        "contracts",
-        "UniversalAdapter.sol",
-        "UniversalAdapter.json"
-      );
-      const targetAbiPath = path.join(frontendConfigDir, "abi");
-      if (!fs.existsSync(targetAbiPath)) fs.mkdirSync(targetAbiPath, { recursive: true });
-      fs.copyFileSync(artifactPath, path.join(targetAbiPath, "UniversalAdapter.json"));
-      console.log("Copied ABI to frontend/web/src/abi/UniversalAdapter.json");
-    } catch (e) {
-      console.warn(
-        "Failed to copy ABI automatically. Please copy artifacts/.../UniversalAdapter.json manually to frontend/web/src/abi/UniversalAdapter.json",
-        e
-      );
-    }
+  const dryRun = switchOn("dry-run", "DRY_RUN");
+  const allowDirty = switchOn("allow-dirty", "ALLOW_DIRTY");
+  assertCleanWorkspace(allowDirty || dryRun);
+
+  const deployer = await resolveDeployer();
+  const deployerAddress = await deployer.getAddress();
+  const chainId = Number((await deployer.provider!.getNetwork()).chainId);
+  const abiPaths = CONTRACTS.map((name) => path.join(FRONTEND_SRC_DIR, "abi", `${name}.json`));
+
+  if (dryRun) {
+    await reportDryRun(deployer, chainId, abiPaths);
+    return;
+  }
+
+  console.log(`Deploying to chain ${chainId} (${network.name}) from ${deployerAddress}`);
+
+  const contracts: Record<string, ContractDeployment> = {};
+  for (const name of CONTRACTS) {
+    contracts[name] = await deployContract(name, deployer);
+  }
+
+  // Entries for other chains are kept, so one manifest serves every network the frontend supports
+  const manifest = readManifest();
+  manifest[chainId] = {
+    chainId,
+    network: network.name,
+    deployer: deployerAddress,
+    deployedAt: new Date().toISOString(),
+    contracts,
+  };
+  writeManifest(manifest);
+  console.log(`Recorded chain ${chainId} in ${relative(MANIFEST_PATH)}`);
+
+  // Copy ABIs to the frontend
+  fs.mkdirSync(path.dirname(abiPaths[0]), { recursive: true });
+  for (const [i, name] of CONTRACTS.entries()) {
+    const artifact = await artifacts.readArtifact(name);
+    fs.writeFileSync(abiPaths[i], JSON.stringify(artifact, null, 2));
+    console.log(`Copied ABI to ${relative(abiPaths[i])}`);
   }
 }
 
+// Reports what a deploy would send and write, without sending transactions or touching files
+async function reportDryRun(deployer: Signer, chainId: number, abiPaths: string[]) {
+  const deployerAddress = await deployer.getAddress();
+  const provider = deployer.provider!;
+  const nonce = await provider.getTransactionCount(deployerAddress);
+  const balance = await provider.getBalance(deployerAddress);
+
+  console.log(`[dry run] Would deploy to chain ${chainId} (${network.name}) from ${deployerAddress}`);
+  console.log(`[dry run] Deployer balance: ${balance} wei, next nonce ${nonce}`);
+
+  for (const [i, name] of CONTRACTS.entries()) {
+    const factory = await hardhatEthers.getContractFactory(name, deployer);
+    const tx = await factory.getDeployTransaction();
+    const gas = await provider.estimateGas({ ...tx, from: deployerAddress });
+    // Deployments go out back to back, so each lands at the address of its nonce
+    const address = getCreateAddress({ from: deployerAddress, nonce: nonce + i });
+    console.log(`[dry run] ${name}: ~${gas} gas, would deploy at ${address}, abiHash ${abiHash(factory.interface)}`);
+  }
+
+  const existing = readManifest()[chainId];
+  const action = existing ? `replace the entry deployed ${existing.deployedAt || "previously"}` : "add a new entry";
+  console.log(`[dry run] Would ${action} for chain ${chainId} in ${relative(MANIFEST_PATH)}`);
+  abiPaths.forEach((file) => console.log(`[dry run] Would write ${relative(file)}`));
+  console.log("[dry run] Nothing was deployed or written");
+}
+
 main().catch((e) => {
   console.error(e);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,45 @@
+// deploy/manifest.ts
+import fs from "fs";
+import path from "path";
+import { Interface, id } from "ethers";
+
+export const PROJECT_ROOT = path.join(__dirname, "..");
+export const FRONTEND_SRC_DIR = path.join(PROJECT_ROOT, "frontend", "web", "src");
+export const MANIFEST_PATH = path.join(FRONTEND_SRC_DIR, "deployments.json");
+// deployment:verify output, kept next to the manifest it checks; .gitignore keeps it out of commits
+export const REPORT_PATH = path.join(FRONTEND_SRC_DIR, "deployments.report.json");
+
+export const LOCAL_CHAIN_ID = 31337;
+
+export interface ContractDeployment {
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  abiHash: string;
+}
+
+export interface ChainDeployment {
+  chainId: number;
+  network: string;
+  deployer: string;
+  deployedAt: string;
+  contracts: Record<string, ContractDeployment>;
+}
+
+export type Manifest = Record<string, ChainDeployment>;
+
+export function readManifest(): Manifest {
+  if (!fs.existsSync(MANIFEST_PATH)) return {};
+  return JSON.parse(fs.readFileSync(MANIFEST_PATH, "utf8"));
+}
+
+export function writeManifest(manifest: Manifest) {
+  fs.writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2) + "\n");
+}
+
+// Hash of the canonical ABI JSON, to tell later whether a deployed contract matches the current build
+export function abiHash(abi: Interface): string {
+  return id(abi.formatJson());
+}
+
+export const relative = (file: string) => path.relative(PROJECT_ROOT, file);
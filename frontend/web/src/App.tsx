@@ -1,25 +1,51 @@
 // App.tsx
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { ethers } from "ethers";
 import { getContractReadOnly, getContractWithSigner } from "./contract";
+import {
+  activeChainId,
+  contractAddress,
+  contractDeployment,
+  deployedChainIds,
+  selectChain,
+  selectWalletChain
+} from "./deployments";
+import { encryptArticle, toArticleId } from "./fhe";
+import { BubbleParseError, BubbleRepository, NewsBubble } from "./bubbleRepository";
+import { BubbleIndexer } from "./bubbleIndexer";
+import { BubbleAnalyticsClient, accessDeniedMessage, analyticsAddress, userIdFor } from "./bubbleAnalytics";
+import { AnalysisPipeline, PipelineState } from "./analysisPipeline";
+import { buildReadingHistory, categoryOf, loadArticleFeatures, saveArticleFeatures } from "./readingHistory";
+import { analyzeHistory } from "./analytics";
+import { outletById, resolveOutlet } from "./outlets";
+import { ArticleDraft, PendingArticle, extractLinks, parseArticleLink, pendingArticle } from "./articleLinks";
+import { ImportFormatError, ImportPreview, previewImport } from "./readingImports";
+import { rateBubble, rateOutlet } from "./sourceRatings";
 import WalletManager from "./components/WalletManager";
 import WalletSelector from "./components/WalletSelector";
+import AnalysisStepper from "./components/AnalysisStepper";
+import DataAccessPanel from "./components/DataAccessPanel";
+import OutletInput from "./components/OutletInput";
+import ArticleBatch from "./components/ArticleBatch";
+import ImportSummary from "./components/ImportSummary";
 import "./App.css";
 
-interface NewsBubble {
-  id: string;
-  encryptedData: string;
-  timestamp: number;
-  source: string;
-  biasScore: number;
-  category: string;
-}
+const SENTIMENTS = [
+  { label: "Negative", value: 0 },
+  { label: "Neutral", value: 50 },
+  { label: "Positive", value: 100 }
+];
+
+const PAGE_SIZE = 20;
 
 const App: React.FC = () => {
   // Randomly selected style: Gradient (Rainbow) + Glassmorphism + Center Radiation + Micro-interactions
   const [account, setAccount] = useState("");
+  const [chainId, setChainId] = useState(activeChainId());
   const [loading, setLoading] = useState(true);
   const [bubbles, setBubbles] = useState<NewsBubble[]>([]);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [loadErrors, setLoadErrors] = useState<BubbleParseError[]>([]);
   const [provider, setProvider] = useState<ethers.BrowserProvider | null>(null);
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [showAddModal, setShowAddModal] = useState(false);
@@ -33,21 +59,80 @@ const App: React.FC = () => {
   const [newBubbleData, setNewBubbleData] = useState({
     source: "",
     content: "",
-    category: "politics"
+    category: "",
+    sentiment: 50
   });
+  const [addMode, setAddMode] = useState<"manual" | "links" | "import">("manual");
+  const [linkText, setLinkText] = useState("");
+  const [pendingArticles, setPendingArticles] = useState<PendingArticle[]>([]);
+  const [lastImport, setLastImport] = useState<ImportPreview | null>(null);
   const [activeTab, setActiveTab] = useState("analysis");
   const [searchQuery, setSearchQuery] = useState("");
+  const [dataView, setDataView] = useState<"mine" | "community">("mine");
+  const [analysisCategories, setAnalysisCategories] = useState<string[]>([]);
+  const [articleCount, setArticleCount] = useState(0);
+  const [pipelineState, setPipelineState] = useState<PipelineState | null>(null);
+  const pipelineRef = useRef<AnalysisPipeline | null>(null);
+
+  // Records are namespaced by the wallet that stored them (DataStored sender)
+  const owner = account.toLowerCase();
+  const myBubbles = account ? bubbles.filter(b => b.owner === owner) : [];
+  const communityBubbles = bubbles.filter(b => b.owner !== owner);
 
-  // Randomly selected additional features: Data Statistics + Smart Chart + Search & Filter
-  const politicalCount = bubbles.filter(b => b.category === "politics").length;
-  const techCount = bubbles.filter(b => b.category === "technology").length;
-  const healthCount = bubbles.filter(b => b.category === "health").length;
-  const totalBubbles = bubbles.length;
+  // Only ever decrypted privately in this browser, see AnalysisPipeline.decrypt
+  const revealed = pipelineState?.result ?? null;
 
+  // Follow the injected wallet's chain from the start, before any account is connected
   useEffect(() => {
-    loadBubbles().finally(() => setLoading(false));
+    selectWalletChain().then(() => setChainId(activeChainId()));
   }, []);
 
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+    loadBubbles().finally(() => setLoading(false));
+    loadAnalysis();
+  }, [account, chainId]);
+
+  // Categories come from the on-chain registry, so follow it when the admin adds one
+  useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+    let cancelled = false;
+    BubbleAnalyticsClient.readOnly().then(client => {
+      if (!client || cancelled) return;
+      unsubscribe = client.on("CategoryAdded", () => {
+        client.categories().then(setAnalysisCategories).catch(e => console.error("Error loading categories:", e));
+      });
+    });
+    return () => {
+      cancelled = true;
+      unsubscribe?.();
+    };
+  }, [chainId]);
+
+  useEffect(() => {
+    if (!account || !analyticsAddress()) {
+      pipelineRef.current = null;
+      setPipelineState(null);
+      return;
+    }
+    
+    // The pipeline persists its stage per wallet, so a reload resumes where it left off
+    const pipeline = new AnalysisPipeline(account, analyticsAddress());
+    pipelineRef.current = pipeline;
+    const unsubscribe = pipeline.subscribe(setPipelineState);
+    
+    BubbleAnalyticsClient.readOnly().then(async client => {
+      if (!client || pipelineRef.current !== pipeline) return;
+      await pipeline.sync(client);
+      pipeline.watch(client);
+    }).catch(e => console.error("Error resuming analysis pipeline:", e));
+    
+    return () => {
+      unsubscribe();
+      pipeline.stopWatching();
+    };
+  }, [account, chainId]);
+
   const onWalletSelect = async (wallet: any) => {
     if (!wallet.provider) return;
     try {
@@ -56,16 +141,27 @@ const App: React.FC = () => {
       const accounts = await web3Provider.send("eth_requestAccounts", []);
       const acc = accounts[0] || "";
       setAccount(acc);
+      applyChain(Number(await web3Provider.send("eth_chainId", [])));
 
       wallet.provider.on("accountsChanged", async (accounts: string[]) => {
         const newAcc = accounts[0] || "";
+        // The account effect reloads the history for the new wallet
         setAccount(newAcc);
       });
+      wallet.provider.on("chainChanged", (hexChainId: string) => applyChain(Number(hexChainId)));
     } catch (e) {
       showNotification("error", "Failed to connect wallet");
     }
   };
 
+  // Switches every contract lookup to the deployment recorded for the wallet's chain
+  const applyChain = (walletChainId: number) => {
+    if (!selectChain(walletChainId)) {
+      showNotification("error", `Nothing is deployed on chain ${walletChainId}; switch to chain ${deployedChainIds().join(" or ")}`);
+    }
+    setChainId(activeChainId());
+  };
+
   const onConnect = () => setWalletSelectorOpen(true);
   const onDisconnect = () => {
     setAccount("");
@@ -90,44 +186,22 @@ const App: React.FC = () => {
         return;
       }
       
-      const keysBytes = await contract.getData("bubble_keys");
-      let keys: string[] = [];
+      const indexer = new BubbleIndexer(contract, activeChainId(), contractAddress("UniversalAdapter"), {
+        fromBlock: contractDeployment("UniversalAdapter")?.blockNumber
+      });
+      const result = await indexer.sync();
+      setBubbles(result.bubbles);
+      setLoadErrors(result.errors);
       
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing bubble keys:", e);
-        }
+      const ownOrphans = result.orphans.filter(o => account && o.writer === account.toLowerCase());
+      if (ownOrphans.length > 0) {
+        repairOrphans(ownOrphans.map(o => o.id));
       }
       
-      const list: NewsBubble[] = [];
-      
-      for (const key of keys) {
-        try {
-          const bubbleBytes = await contract.getData(`bubble_${key}`);
-          if (bubbleBytes.length > 0) {
-            try {
-              const bubbleData = JSON.parse(ethers.toUtf8String(bubbleBytes));
-              list.push({
-                id: key,
-                encryptedData: bubbleData.data,
-                timestamp: bubbleData.timestamp,
-                source: bubbleData.source,
-                biasScore: bubbleData.biasScore || 0,
-                category: bubbleData.category || "general"
-              });
-            } catch (e) {
-              console.error(`Error parsing bubble data for ${key}:`, e);
-            }
-          }
-        } catch (e) {
-          console.error(`Error loading bubble ${key}:`, e);
-        }
+      if (result.errors.length > 0) {
+        showNotification("error", `${result.errors.length} bubble record(s) could not be read`);
+        return;
       }
-      
-      list.sort((a, b) => b.timestamp - a.timestamp);
-      setBubbles(list);
       showNotification("success", "Bubble data loaded successfully");
     } catch (e) {
       console.error("Error loading bubbles:", e);
@@ -138,8 +212,123 @@ const App: React.FC = () => {
     }
   };
 
+  const loadAnalysis = async () => {
+    try {
+      const client = await BubbleAnalyticsClient.readOnly();
+      if (!client) return;
+      
+      setAnalysisCategories(await client.categories());
+      setArticleCount(account ? await client.articleCount(userIdFor(account)) : 0);
+    } catch (e) {
+      console.error("Error loading analysis:", e);
+      showNotification("error", "Failed to load analysis results");
+    }
+  };
+
+  // Until the user picks one, the first category in the registry is selected
+  const selectedCategory = newBubbleData.category || analysisCategories[0] || "";
+
+  // Deployments from before BubbleAnalytics existed have only UniversalAdapter; adding needs the analytics history
+  const analyticsMissing = analyticsAddress()
+    ? null
+    : `BubbleAnalytics is not deployed on chain ${chainId}` +
+      (deployedChainIds("BubbleAnalytics").length > 0
+        ? `; switch to chain ${deployedChainIds("BubbleAnalytics").join(" or ")} to add articles and run an analysis`
+        : "; deploy it with deploy/deploy.ts to add articles and run an analysis");
+
+  const openAddModal = () => {
+    if (analyticsMissing) {
+      showNotification("error", analyticsMissing);
+      return;
+    }
+    setShowAddModal(true);
+    // The registry may have grown since the page loaded
+    loadAnalysis();
+  };
+
+  const currentHistory = () =>
+    buildReadingHistory(myBubbles, analysisCategories, loadArticleFeatures(account));
+
+  // The same formulas as the contract, over this browser's plaintext features, until a result is decrypted
+  const preview = !revealed && myBubbles.length > 0 && analysisCategories.length > 0
+    ? analyzeHistory(currentHistory())
+    : null;
+  const scores = revealed ?? preview;
+
+  const runPipeline = async (action: (pipeline: AnalysisPipeline, client: BubbleAnalyticsClient) => Promise<void>) => {
+    const pipeline = pipelineRef.current;
+    if (!pipeline) return;
+    try {
+      await action(pipeline, await BubbleAnalyticsClient.withSigner());
+    } catch (e: any) {
+      showNotification("error", e.message || "Analysis pipeline failed");
+    }
+  };
+
+  const startAnalysis = () => runPipeline((pipeline, client) => pipeline.run(client, currentHistory()));
+  const calculateAnalysis = () => runPipeline((pipeline, client) => pipeline.calculate(client));
+  const revealAnalysis = () => runPipeline((pipeline, client) => pipeline.decrypt(client));
+  const retryPipeline = () => runPipeline((pipeline, client) => pipeline.retry(client, currentHistory));
+
+  const repairOrphans = async (ids: string[]) => {
+    try {
+      const contract = await getContractWithSigner();
+      const repaired = await new BubbleRepository(contract).repair(ids);
+      if (repaired.length > 0) {
+        showNotification("info", `Re-indexed ${repaired.length} orphaned bubble record(s)`);
+      }
+    } catch (e) {
+      console.error("Error repairing bubble index:", e);
+    }
+  };
+
+  // Stores one article's public record (outlet, rating, time) and appends its encrypted features to the analytics
+  // history. The category and sentiment only leave the browser encrypted; the plaintext is kept here.
+  // A batch leaves its records to be indexed together, see addPendingArticles.
+  const storeArticle = async (draft: ArticleDraft, repository: BubbleRepository, index = true): Promise<NewsBubble> => {
+    const categoryIndex = analysisCategories.indexOf(draft.category);
+    if (categoryIndex < 0) {
+      throw new Error("Categories could not be loaded from BubbleAnalytics");
+    }
+    
+    const features = {
+      categoryIndex,
+      sentiment: draft.sentiment,
+      articleId: toArticleId(draft.source, draft.content)
+    };
+    
+    // Inputs are bound to one contract, and only BubbleAnalytics computes on them
+    const analytics = await BubbleAnalyticsClient.withSigner();
+    const encrypted = await encryptArticle(analytics.address, account, features);
+    
+    // Record first: a failed append leaves a listed article outside the history, never one appended twice on retry
+    const rating = rateOutlet(resolveOutlet(draft.source));
+    const created = await repository.create({
+      timestamp: Math.floor(Date.now() / 1000),
+      source: draft.source,
+      outletId: rating.outlet?.id ?? null,
+      biasScore: rating.biasScore,
+      ratingVersion: rating.ratingVersion
+    }, { index });
+    
+    showNotification("info", "Adding the article to your encrypted reading history...");
+    await analytics.appendArticle(userIdFor(account), encrypted);
+    saveArticleFeatures(account, created.id, features);
+    return created;
+  };
+
+  // Access control reverts, e.g. appending from a wallet other than the registered one, are explained first
+  const submissionError = (e: unknown) => {
+    const denied = accessDeniedMessage(e);
+    if (denied) return denied;
+    const message = e instanceof Error ? e.message : "";
+    return message.includes("user rejected transaction")
+      ? "Transaction rejected by user"
+      : "Submission failed: " + (message || "Unknown error");
+  };
+
   const addBubble = async () => {
-    if (!provider) { 
+    if (!provider || !account) { 
       showNotification("error", "Please connect wallet first"); 
       return; 
     }
@@ -148,65 +337,100 @@ const App: React.FC = () => {
     showNotification("info", "Encrypting news data with FHE...");
     
     try {
-      // Simulate FHE encryption
-      const encryptedData = `FHE-${btoa(JSON.stringify(newBubbleData))}`;
-      
-      const contract = await getContractWithSigner();
-      if (!contract) {
-        throw new Error("Failed to get contract with signer");
-      }
-      
-      const bubbleId = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-
-      const bubbleData = {
-        data: encryptedData,
-        timestamp: Math.floor(Date.now() / 1000),
-        source: newBubbleData.source,
-        biasScore: Math.floor(Math.random() * 100), // Simulated bias score
-        category: newBubbleData.category
-      };
-      
-      // Store encrypted data on-chain using FHE
-      await contract.setData(
-        `bubble_${bubbleId}`, 
-        ethers.toUtf8Bytes(JSON.stringify(bubbleData))
-      );
-      
-      const keysBytes = await contract.getData("bubble_keys");
-      let keys: string[] = [];
-      
-      if (keysBytes.length > 0) {
-        try {
-          keys = JSON.parse(ethers.toUtf8String(keysBytes));
-        } catch (e) {
-          console.error("Error parsing keys:", e);
-        }
-      }
-      
-      keys.push(bubbleId);
-      
-      await contract.setData(
-        "bubble_keys", 
-        ethers.toUtf8Bytes(JSON.stringify(keys))
-      );
-      
+      await storeArticle({ ...newBubbleData, category: selectedCategory }, new BubbleRepository(await getContractWithSigner()));
       showNotification("success", "News bubble added with FHE encryption!");
       
-      await loadBubbles();
+      await Promise.all([loadBubbles(), loadAnalysis()]);
       
       setShowAddModal(false);
       setNewBubbleData({
         source: "",
         content: "",
-        category: "politics"
+        category: "",
+        sentiment: 50
+      });
+    } catch (e) {
+      showNotification("error", submissionError(e));
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  // A single link prefills the form; several, or any while a batch is open, join the batch for review
+  const readLinks = () => {
+    const links = extractLinks(linkText)
+      .map(link => parseArticleLink(link, analysisCategories))
+      .filter(link => link !== null);
+    if (links.length === 0) {
+      showNotification("error", "No article links found in the pasted text");
+      return;
+    }
+    
+    if (links.length === 1 && pendingArticles.length === 0) {
+      const [link] = links;
+      setNewBubbleData({
+        ...newBubbleData,
+        source: link.source,
+        category: link.category ?? newBubbleData.category,
+        content: link.summary
       });
+      setAddMode("manual");
+    } else {
+      const queued = new Set(pendingArticles.map(a => a.key));
+      const added = links.filter(link => !queued.has(link.url)).map(pendingArticle);
+      setPendingArticles([...pendingArticles, ...added]);
+      const skipped = links.length - added.length;
+      showNotification("info", `${added.length} article(s) added to the batch${skipped > 0 ? `, ${skipped} already queued` : ""}`);
+    }
+    setLinkText("");
+  };
+
+  // The file is read and mapped here; its entries only reach the batch, never the chain
+  const importFile = async (file: File) => {
+    try {
+      const queued = new Set(pendingArticles.map(a => a.key));
+      const stored = new Set(Object.values(loadArticleFeatures(account)).map(f => f.articleId));
+      const preview = previewImport(
+        await file.text(),
+        analysisCategories,
+        article => queued.has(article.key) || stored.has(toArticleId(article.source, article.content))
+      );
+      setLastImport(preview);
+      setPendingArticles([...pendingArticles, ...preview.articles]);
     } catch (e: any) {
-      const errorMessage = e.message.includes("user rejected transaction")
-        ? "Transaction rejected by user"
-        : "Submission failed: " + (e.message || "Unknown error");
-      
-      showNotification("error", errorMessage);
+      setLastImport(null);
+      showNotification("error", e instanceof ImportFormatError ? e.message : "Import failed: " + (e.message || "Unknown error"));
+    }
+  };
+
+  const addPendingArticles = async () => {
+    if (!provider || !account) { 
+      showNotification("error", "Please connect wallet first"); 
+      return; 
+    }
+    
+    setAdding(true);
+    const batch = pendingArticles;
+    const added: string[] = [];
+    let repository: BubbleRepository | null = null;
+    try {
+      repository = new BubbleRepository(await getContractWithSigner());
+      for (const article of batch) {
+        showNotification("info", `Encrypting article ${added.length + 1} of ${batch.length} with FHE...`);
+        added.push((await storeArticle(article, repository, false)).id);
+        // Stored articles leave the batch at once, so retrying after a failure adds no duplicates
+        setPendingArticles(pending => pending.filter(a => a.key !== article.key));
+      }
+      showNotification("success", `${added.length} news bubbles added with FHE encryption!`);
+      setShowAddModal(false);
+    } catch (e) {
+      showNotification("error", `${submissionError(e)} (${added.length} of ${batch.length} added)`);
     } finally {
+      // One index write for the whole batch; should it fail, the orphan repair on the next load lists the records
+      if (repository && added.length > 0) {
+        await repository.index(added).catch(e => console.error("Error indexing the batch:", e));
+      }
+      if (added.length > 0) await Promise.all([loadBubbles(), loadAnalysis()]);
       setAdding(false);
     }
   };
@@ -227,27 +451,59 @@ const App: React.FC = () => {
     }
   };
 
-  const filteredBubbles = bubbles.filter(bubble => 
+  // Categories are known only for articles stored from this browser, see readingHistory.ts
+  const storedFeatures = account ? loadArticleFeatures(account) : {};
+  const categoryLabel = (bubble: NewsBubble) => categoryOf(bubble, analysisCategories, storedFeatures);
+
+  const filteredBubbles = (dataView === "mine" ? myBubbles : communityBubbles).filter(bubble => 
     bubble.source.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    bubble.category.toLowerCase().includes(searchQuery.toLowerCase())
+    (outletById(bubble.outletId)?.name.toLowerCase().includes(searchQuery.toLowerCase()) ?? false) ||
+    (categoryLabel(bubble)?.toLowerCase().includes(searchQuery.toLowerCase()) ?? false)
   );
 
+  const renderBiasBadge = (bubble: NewsBubble) => {
+    const { outlet, rating, biasScore } = rateBubble(bubble);
+    return (
+      <span
+        className={`bias-score ${biasScore > 70 ? "high" : biasScore < 30 ? "low" : "medium"}`}
+        title={rating
+          ? `${outlet!.name}: lean ${rating.lean} (-100 left to 100 right), reliability ${rating.reliability}/100`
+          : "Not in the source ratings dataset"}
+      >
+        {rating ? `Bias: ${biasScore}` : "Unrated"}
+      </span>
+    );
+  };
+
   const renderBiasChart = () => {
-    const avgBias = bubbles.length > 0 
-      ? bubbles.reduce((sum, bubble) => sum + bubble.biasScore, 0) / bubbles.length 
-      : 50;
+    if (!scores) {
+      return (
+        <div className="bias-chart">
+          <p className="subtitle">
+            No decrypted analysis yet. Run an analysis and decrypt it privately to see your bias vector.
+          </p>
+        </div>
+      );
+    }
     
     return (
       <div className="bias-chart">
-        <div className="chart-container">
-          <div 
-            className="chart-bar" 
-            style={{ width: `${avgBias}%` }}
-          ></div>
-          <div className="chart-label">
-            Average Bias Score: {avgBias.toFixed(1)}
+        {preview && (
+          <p className="pipeline-hint">
+            Local preview from the articles added in this browser. Run the encrypted analysis to confirm it.
+          </p>
+        )}
+        {scores.biasVector.map((bias, i) => (
+          <div className="chart-container" key={analysisCategories[i] ?? i}>
+            <div 
+              className="chart-bar" 
+              style={{ width: `${Math.min(bias, 100)}%` }}
+            ></div>
+            <div className="chart-label">
+              {analysisCategories[i] ?? `Category ${i}`}: {bias}
+            </div>
           </div>
-        </div>
+        ))}
         <div className="chart-legend">
           <span>Neutral</span>
           <span>Moderate</span>
@@ -310,22 +566,37 @@ const App: React.FC = () => {
                   Analyzed using Fully Homomorphic Encryption to protect your privacy
                 </p>
                 
+                {pipelineState && (
+                  <AnalysisStepper
+                    state={pipelineState}
+                    canRun={analysisCategories.length > 0 && (articleCount > 0 || currentHistory().articleIds.length > 0)}
+                    onRun={startAnalysis}
+                    onCalculate={calculateAnalysis}
+                    onRequestDecryption={revealAnalysis}
+                    onRetry={retryPipeline}
+                  />
+                )}
+                
+                {analyticsMissing && <p className="pipeline-hint">{analyticsMissing}</p>}
+                
+                {pipelineState && <DataAccessPanel account={account} />}
+                
                 <div className="stats-grid">
                   <div className="stat-card glass-card">
-                    <div className="stat-value">{totalBubbles}</div>
+                    <div className="stat-value">{articleCount}</div>
                     <div className="stat-label">Articles Analyzed</div>
                   </div>
                   <div className="stat-card glass-card">
-                    <div className="stat-value">{politicalCount}</div>
-                    <div className="stat-label">Political</div>
+                    <div className="stat-value">{scores ? scores.diversityScore : "—"}</div>
+                    <div className="stat-label">Diversity Score{preview ? " (preview)" : ""}</div>
                   </div>
                   <div className="stat-card glass-card">
-                    <div className="stat-value">{techCount}</div>
-                    <div className="stat-label">Technology</div>
+                    <div className="stat-value">{analysisCategories.length}</div>
+                    <div className="stat-label">Categories</div>
                   </div>
                   <div className="stat-card glass-card">
-                    <div className="stat-value">{healthCount}</div>
-                    <div className="stat-label">Health</div>
+                    <div className="stat-value">{scores ? scores.recommendedArticles.length : "—"}</div>
+                    <div className="stat-label">Recommendations</div>
                   </div>
                 </div>
                 
@@ -347,11 +618,11 @@ const App: React.FC = () => {
             {activeTab === "data" && (
               <div className="tab-content">
                 <div className="data-header">
-                  <h2>Your Encrypted News Data</h2>
+                  <h2>{dataView === "mine" ? "Your Encrypted News Data" : "Community News Data"}</h2>
                   <div className="header-actions">
                     <button 
                       className="glass-button"
-                      onClick={() => setShowAddModal(true)}
+                      onClick={openAddModal}
                     >
                       + Add News Source
                     </button>
@@ -371,6 +642,32 @@ const App: React.FC = () => {
                   </div>
                 </div>
                 
+                {loadErrors.length > 0 && (
+                  <div className="load-errors glass-card">
+                    <h3>Some records could not be read</h3>
+                    <ul>
+                      {loadErrors.map(err => (
+                        <li key={err.key}>{err.message}</li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+                
+                <div className="view-toggle">
+                  <button 
+                    className={`glass-button small ${dataView === "mine" ? "primary" : ""}`}
+                    onClick={() => setDataView("mine")}
+                  >
+                    My History
+                  </button>
+                  <button 
+                    className={`glass-button small ${dataView === "community" ? "primary" : ""}`}
+                    onClick={() => setDataView("community")}
+                  >
+                    Community
+                  </button>
+                </div>
+                
                 <div className="search-bar">
                   <input
                     type="text"
@@ -381,30 +678,42 @@ const App: React.FC = () => {
                   />
                 </div>
                 
-                {filteredBubbles.length === 0 ? (
+                {dataView === "mine" && !account ? (
+                  <div className="empty-state glass-card">
+                    <div className="empty-icon">🔑</div>
+                    <h3>Connect your wallet</h3>
+                    <p>Your reading history is tied to the wallet that stored it</p>
+                    <button 
+                      className="glass-button primary"
+                      onClick={onConnect}
+                    >
+                      Connect Wallet
+                    </button>
+                  </div>
+                ) : filteredBubbles.length === 0 ? (
                   <div className="empty-state glass-card">
                     <div className="empty-icon">📰</div>
                     <h3>No news sources found</h3>
                     <p>Add your first encrypted news source to begin analysis</p>
                     <button 
                       className="glass-button primary"
-                      onClick={() => setShowAddModal(true)}
+                      onClick={openAddModal}
                     >
                       Add News Source
                     </button>
                   </div>
                 ) : (
                   <div className="bubbles-list">
-                    {filteredBubbles.map(bubble => (
+                    {filteredBubbles.slice(0, visibleCount).map(bubble => (
                       <div className="bubble-item glass-card" key={bubble.id}>
                         <div className="bubble-header">
-                          <span className="source">{bubble.source}</span>
-                          <span className={`bias-score ${bubble.biasScore > 70 ? "high" : bubble.biasScore < 30 ? "low" : "medium"}`}>
-                            Bias: {bubble.biasScore}
+                          <span className="source" title={bubble.source}>
+                            {outletById(bubble.outletId)?.name ?? bubble.source}
                           </span>
+                          {renderBiasBadge(bubble)}
                         </div>
                         <div className="bubble-meta">
-                          <span className="category">{bubble.category}</span>
+                          <span className="category">{categoryLabel(bubble) ?? "Encrypted"}</span>
                           <span className="timestamp">
                             {new Date(bubble.timestamp * 1000).toLocaleDateString()}
                           </span>
@@ -416,6 +725,17 @@ const App: React.FC = () => {
                     ))}
                   </div>
                 )}
+                
+                {filteredBubbles.length > visibleCount && (
+                  <div className="load-more">
+                    <button 
+                      className="glass-button"
+                      onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                    >
+                      Load More
+                    </button>
+                  </div>
+                )}
               </div>
             )}
             
@@ -447,11 +767,11 @@ const App: React.FC = () => {
                 <div className="diversity-stats glass-card">
                   <h3>Your Diversity Score</h3>
                   <div className="diversity-meter">
-                    <div className="meter-bar" style={{ width: "65%" }}></div>
+                    <div className="meter-bar" style={{ width: `${scores ? Math.min(scores.diversityScore, 100) : 0}%` }}></div>
                   </div>
                   <p>
-                    Your score is based on the variety of sources, perspectives, and topics in your reading history.
-                    Higher scores indicate more diverse information consumption.
+                    Your score measures how evenly your reading is spread across the categories, from 0 for a single
+                    category to 100 for an even spread.{preview ? " This is a local preview until you decrypt your analysis." : ""}
                   </p>
                 </div>
               </div>
@@ -462,7 +782,7 @@ const App: React.FC = () => {
       
       {showAddModal && (
         <div className="modal-overlay">
-          <div className="add-modal glass-card">
+          <div className={`add-modal glass-card ${addMode !== "manual" ? "wide" : ""}`}>
             <div className="modal-header">
               <h2>Add News Source</h2>
               <button 
@@ -473,47 +793,131 @@ const App: React.FC = () => {
               </button>
             </div>
             
+            <div className="view-toggle">
+              <button 
+                className={`glass-button small ${addMode === "manual" ? "primary" : ""}`}
+                onClick={() => setAddMode("manual")}
+              >
+                Manual
+              </button>
+              <button 
+                className={`glass-button small ${addMode === "links" ? "primary" : ""}`}
+                onClick={() => setAddMode("links")}
+              >
+                From Links{pendingArticles.length > 0 ? ` (${pendingArticles.length})` : ""}
+              </button>
+              <button 
+                className={`glass-button small ${addMode === "import" ? "primary" : ""}`}
+                onClick={() => setAddMode("import")}
+              >
+                Import File
+              </button>
+            </div>
+            
             <div className="modal-body">
-              <div className="form-group">
-                <label>News Source</label>
-                <input
-                  type="text"
-                  value={newBubbleData.source}
-                  onChange={(e) => setNewBubbleData({...newBubbleData, source: e.target.value})}
-                  placeholder="e.g. New York Times, BBC, etc."
-                  className="glass-input"
-                />
-              </div>
+              {addMode !== "manual" ? (
+                <>
+                  {addMode === "links" ? (
+                    <div className="form-group">
+                      <label>Article Links</label>
+                      <textarea
+                        value={linkText}
+                        onChange={(e) => setLinkText(e.target.value)}
+                        placeholder="Paste one or more article links; one fills in the form, several start a batch to review"
+                        className="glass-textarea"
+                        rows={4}
+                      />
+                      <button 
+                        onClick={readLinks}
+                        disabled={!linkText.trim() || analysisCategories.length === 0}
+                        className="glass-button small read-links"
+                      >
+                        Read Links
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="form-group">
+                      <label>Reading History File</label>
+                      <input
+                        type="file"
+                        accept=".json,.csv,.opml,.xml"
+                        onChange={(e) => {
+                          const file = e.target.files?.[0];
+                          if (file) importFile(file);
+                          e.target.value = "";
+                        }}
+                        className="glass-input"
+                        disabled={adding || analysisCategories.length === 0}
+                      />
+                      <ImportSummary preview={lastImport} />
+                    </div>
+                  )}
               
-              <div className="form-group">
-                <label>Category</label>
-                <select
-                  value={newBubbleData.category}
-                  onChange={(e) => setNewBubbleData({...newBubbleData, category: e.target.value})}
-                  className="glass-select"
-                >
-                  <option value="politics">Politics</option>
-                  <option value="technology">Technology</option>
-                  <option value="health">Health</option>
-                  <option value="business">Business</option>
-                  <option value="entertainment">Entertainment</option>
-                </select>
-              </div>
+                  <ArticleBatch
+                    articles={pendingArticles}
+                    categories={analysisCategories}
+                    sentiments={SENTIMENTS}
+                    disabled={adding}
+                    onChange={(article) => setPendingArticles(pending => pending.map(a => a.key === article.key ? article : a))}
+                    onRemove={(key) => setPendingArticles(pending => pending.filter(a => a.key !== key))}
+                  />
+                </>
+                ) : (
+                <>
+                  <div className="form-group">
+                    <label>News Source</label>
+                    <OutletInput
+                      value={newBubbleData.source}
+                      onChange={(source) => setNewBubbleData({...newBubbleData, source})}
+                    />
+                  </div>
               
-              <div className="form-group">
-                <label>Content Summary</label>
-                <textarea
-                  value={newBubbleData.content}
-                  onChange={(e) => setNewBubbleData({...newBubbleData, content: e.target.value})}
-                  placeholder="Brief summary of the article content..."
-                  className="glass-textarea"
-                  rows={4}
-                />
-              </div>
+                  <div className="form-group">
+                    <label>Category</label>
+                    <select
+                      value={selectedCategory}
+                      onChange={(e) => setNewBubbleData({...newBubbleData, category: e.target.value})}
+                      className="glass-select"
+                      disabled={analysisCategories.length === 0}
+                    >
+                      {analysisCategories.length === 0 && <option value="">Loading categories...</option>}
+                      {analysisCategories.map(c => (
+                        <option key={c} value={c}>{c}</option>
+                      ))}
+                    </select>
+                  </div>
+              
+                  <div className="form-group">
+                    <label>Sentiment</label>
+                    <select
+                      value={newBubbleData.sentiment}
+                      onChange={(e) => setNewBubbleData({...newBubbleData, sentiment: Number(e.target.value)})}
+                      className="glass-select"
+                    >
+                      {SENTIMENTS.map(s => (
+                        <option key={s.value} value={s.value}>{s.label}</option>
+                      ))}
+                    </select>
+                  </div>
+              
+                  <div className="form-group">
+                    <label>Content Summary</label>
+                    <textarea
+                      value={newBubbleData.content}
+                      onChange={(e) => setNewBubbleData({...newBubbleData, content: e.target.value})}
+                      placeholder="Brief summary of the article content..."
+                      className="glass-textarea"
+                      rows={4}
+                    />
+                  </div>
+                </>
+              )}
               
               <div className="fhe-notice">
                 <div className="lock-icon">🔒</div>
-                This data will be encrypted with FHE before analysis
+                {addMode !== "manual"
+                  ? "Links and files are read in this browser and never stored; only the outlet and the encrypted features are"
+                  : "This data will be encrypted with FHE before analysis"}
               </div>
             </div>
             
@@ -524,13 +928,23 @@ const App: React.FC = () => {
               >
                 Cancel
               </button>
-              <button 
-                onClick={addBubble}
-                disabled={adding || !newBubbleData.source || !newBubbleData.content}
-                className="glass-button primary"
-              >
-                {adding ? "Encrypting..." : "Add Securely"}
-              </button>
+              {addMode !== "manual" ? (
+                <button 
+                  onClick={addPendingArticles}
+                  disabled={adding || pendingArticles.length === 0 || pendingArticles.some(a => !a.category || !a.content)}
+                  className="glass-button primary"
+                >
+                  {adding ? "Encrypting..." : `Add ${pendingArticles.length} Securely`}
+                </button>
+              ) : (
+                <button 
+                  onClick={addBubble}
+                  disabled={adding || !newBubbleData.source || !newBubbleData.content || !selectedCategory}
+                  className="glass-button primary"
+                >
+                  {adding ? "Encrypting..." : "Add Securely"}
+                </button>
+              )}
             </div>
           </div>
         </div>
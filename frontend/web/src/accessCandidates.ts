@@ -0,0 +1,49 @@
+// accessCandidates.ts
+// The accounts a data access report checks for a user. It is kept free of browser and SDK imports so the
+// contract tests can hold it to the ACL grants the contract makes.
+import { getAddress } from "ethers";
+
+export type AccessRole = "contract" | "owner" | "former-owner" | "admin" | "analyzer" | "granted";
+
+// An account the report checks; the ACL cannot list who holds a handle, only answer for a given account
+export interface AccessCandidate {
+  address: string;
+  roles: AccessRole[];
+}
+
+// What the contract's state and events name for a user
+export interface CandidateSources {
+  contract: string;
+  // The wallet the userId is registered to now, null before its first submission
+  owner: string | null;
+  // Every wallet a UserRegistered event gave the userId to, the current one included
+  registeredWallets: string[];
+  admin: string;
+  // Every account an AnalyzerUpdated event named, enabled or not
+  analyzers: string[];
+  // Accounts a ResultAccessGranted event named for the userId
+  granted: string[];
+}
+
+export function accessCandidates(sources: CandidateSources): AccessCandidate[] {
+  const byAddress = new Map<string, AccessCandidate>();
+  const add = (address: string | null, role: AccessRole) => {
+    if (!address) return;
+    const key = getAddress(address);
+    const candidate = byAddress.get(key) ?? { address: key, roles: [] };
+    if (!candidate.roles.includes(role)) candidate.roles.push(role);
+    byAddress.set(key, candidate);
+  };
+
+  add(sources.contract, "contract");
+  add(sources.owner, "owner");
+  // Moving a userId cannot revoke the grants its earlier wallets hold
+  sources.registeredWallets
+    .filter(wallet => !sources.owner || getAddress(wallet) !== getAddress(sources.owner))
+    .forEach(wallet => add(wallet, "former-owner"));
+  add(sources.admin, "admin");
+  // Former analyzers are kept: revoking the role does not revoke ACL grants they already hold
+  sources.analyzers.forEach(account => add(account, "analyzer"));
+  sources.granted.forEach(account => add(account, "granted"));
+  return [...byAddress.values()];
+}
@@ -0,0 +1,130 @@
+// acl.ts
+import { ethers } from "ethers";
+import aclAbiJson from "./abi/IACL.json";
+import { AccessCandidate, accessCandidates } from "./accessCandidates";
+import { BubbleAnalyticsClient } from "./bubbleAnalytics";
+import { getReadProvider } from "./contract";
+import { contractDeployment } from "./deployments";
+import { getAclAddress } from "./fhe";
+import type { IACL } from "../../../types/@fhevm/solidity/lib/Impl.sol/IACL";
+
+export const IACL_ABI = (aclAbiJson as any).abi || aclAbiJson;
+
+export type { AccessCandidate, AccessRole } from "./accessCandidates";
+
+export interface HandleAccess {
+  group: string;
+  index: number;
+  handle: string;
+  // Addresses of the candidates allowed to use the handle
+  allowed: string[];
+  publiclyDecryptable: boolean;
+}
+
+export interface DataAccessReport {
+  userId: bigint;
+  candidates: AccessCandidate[];
+  handles: HandleAccess[];
+}
+
+export const HANDLE_GROUPS = [
+  "Article ids",
+  "Category scores",
+  "Sentiment scores",
+  "Diversity score",
+  "Bias vector",
+  "Recommendations"
+] as const;
+
+export class AclInspector {
+  constructor(readonly acl: IACL) {}
+
+  static async connect(runner?: ethers.ContractRunner): Promise<AclInspector> {
+    const address = await getAclAddress();
+    const contract = new ethers.Contract(address, IACL_ABI, runner ?? (await getReadProvider()));
+    return new AclInspector(contract as unknown as IACL);
+  }
+
+  async isAllowed(handle: string, account: string): Promise<boolean> {
+    return this.acl.isAllowed(handle, account);
+  }
+
+  async isAllowedForDecryption(handle: string): Promise<boolean> {
+    return this.acl.isAllowedForDecryption(handle);
+  }
+
+  async allowedOnAll(handles: string[], account: string): Promise<boolean> {
+    const allowed = await Promise.all(handles.map(handle => this.isAllowed(handle, account)));
+    return allowed.every(Boolean);
+  }
+
+  // Shares a handle with another account; the sender must itself be allowed to use it
+  async allow(handle: string, account: string) {
+    const tx = await this.acl.allow(handle, account);
+    return tx.wait();
+  }
+
+  // Lets anyone request a public decryption of the handles; the sender must be allowed to use each one
+  async allowForDecryption(handles: string[]) {
+    const tx = await this.acl.allowForDecryption(handles);
+    return tx.wait();
+  }
+
+  // Checks every stored handle of a user against the accounts BubbleAnalytics involves with it
+  async inspect(client: BubbleAnalyticsClient, userId: bigint): Promise<DataAccessReport> {
+    const candidates = await this.candidates(client, userId);
+    const handles = await this.userHandles(client, userId);
+
+    const report = await Promise.all(
+      handles.map(async ({ group, index, handle }) => {
+        const checks = await Promise.all(candidates.map(c => this.isAllowed(handle, c.address)));
+        return {
+          group,
+          index,
+          handle,
+          allowed: candidates.filter((_, i) => checks[i]).map(c => c.address),
+          publiclyDecryptable: await this.isAllowedForDecryption(handle)
+        };
+      })
+    );
+    return { userId, candidates, handles: report };
+  }
+
+  private async candidates(client: BubbleAnalyticsClient, userId: bigint): Promise<AccessCandidate[]> {
+    const fromBlock = contractDeployment("BubbleAnalytics")?.blockNumber ?? 0;
+    const [owner, admin, registeredEvents, analyzerEvents, grantEvents] = await Promise.all([
+      client.userWallet(userId),
+      client.admin(),
+      client.queryEvents("UserRegistered", userId, fromBlock),
+      client.queryEvents("AnalyzerUpdated", undefined, fromBlock),
+      client.queryEvents("ResultAccessGranted", userId, fromBlock)
+    ]);
+
+    return accessCandidates({
+      contract: client.address,
+      owner,
+      registeredWallets: registeredEvents.map(e => e.args.wallet),
+      admin,
+      analyzers: analyzerEvents.map(e => e.args.account),
+      granted: grantEvents.map(e => e.args.account)
+    });
+  }
+
+  private async userHandles(client: BubbleAnalyticsClient, userId: bigint) {
+    const [history, result] = await Promise.all([
+      client.getEncryptedReadingHistory(userId),
+      client.getEncryptedAnalysisResult(userId)
+    ]);
+    const groups: string[][] = [
+      history?.articleIds ?? [],
+      history?.categoryScores ?? [],
+      history?.sentimentScores ?? [],
+      result ? [result.diversityScore] : [],
+      result?.biasVector ?? [],
+      result?.recommendedArticles ?? []
+    ];
+    return groups.flatMap((handles, g) =>
+      handles.map((handle, index) => ({ group: HANDLE_GROUPS[g], index, handle }))
+    );
+  }
+}
@@ -0,0 +1,254 @@
+// analysisPipeline.ts
+import { AclInspector } from "./acl";
+import { analysisStart } from "./analysisStart";
+import { AnalysisResult, BubbleAnalyticsClient, accessDeniedMessage, userIdFor } from "./bubbleAnalytics";
+import { ReadingHistory, encryptReadingHistory } from "./fhe";
+
+const STORAGE_PREFIX = "analysis-pipeline";
+
+export type PipelineStage = "idle" | "submitted" | "analysing" | "ready" | "decrypting" | "revealed";
+
+// Stages shown in the stepper, in order; "idle" precedes the first one
+export const PIPELINE_STEPS: { stage: PipelineStage; label: string }[] = [
+  { stage: "submitted", label: "Submitted" },
+  { stage: "analysing", label: "Analysing" },
+  { stage: "ready", label: "Results ready" },
+  { stage: "decrypting", label: "Decrypting" },
+  { stage: "revealed", label: "Revealed" }
+];
+
+export interface PipelineError {
+  // The stage whose action failed, i.e. the one retry() re-attempts
+  stage: PipelineStage;
+  message: string;
+}
+
+export interface PipelineState {
+  stage: PipelineStage;
+  busy: boolean;
+  error: PipelineError | null;
+  // Block of the last transaction sent, so events from earlier runs are ignored
+  sinceBlock: number;
+  // Whether the wallet already holds ACL access to the current result's handles
+  accessGranted: boolean;
+  // Privately decrypted result; kept in memory only and never persisted
+  result: AnalysisResult | null;
+}
+
+type Listener = (state: PipelineState) => void;
+
+const INITIAL_STATE: PipelineState = {
+  stage: "idle",
+  busy: false,
+  error: null,
+  sinceBlock: 0,
+  accessGranted: false,
+  result: null
+};
+
+const order = (stage: PipelineStage) =>
+  stage === "idle" ? -1 : PIPELINE_STEPS.findIndex(s => s.stage === stage);
+
+export const stageReached = (current: PipelineStage, stage: PipelineStage) =>
+  order(current) >= order(stage);
+
+const errorMessage = (e: any): string => {
+  const denied = accessDeniedMessage(e);
+  if (denied) return denied;
+  const message: string = e?.shortMessage || e?.reason || e?.message || "Unknown error";
+  return message.includes("user rejected") ? "Transaction rejected by user" : message;
+};
+
+export class AnalysisPipeline {
+  private state: PipelineState;
+  private listeners = new Set<Listener>();
+  private unwatch: (() => void) | null = null;
+
+  constructor(
+    private readonly account: string,
+    private readonly contractAddress: string,
+    private readonly storage: Storage = localStorage
+  ) {
+    this.state = this.load();
+  }
+
+  getState(): PipelineState {
+    return this.state;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    listener(this.state);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  // Reconciles the persisted stage with the chain, e.g. after a page reload
+  async sync(client: BubbleAnalyticsClient) {
+    const userId = userIdFor(this.account);
+    const { stage, sinceBlock } = this.state;
+
+    if (!(await client.readingHistory(userId))) {
+      this.update({ stage: "idle", error: null });
+      return;
+    }
+    if (stage === "idle") {
+      const complete = await client.isAnalysisComplete(userId);
+      this.update({ stage: complete ? "ready" : "submitted" });
+      return;
+    }
+    if (stage === "analysing") {
+      const completed = await client.queryEvents("AnalysisCompleted", userId, sinceBlock);
+      if (completed.length > 0) this.update({ stage: "ready", error: null, accessGranted: false });
+    }
+    // A private result does not survive a reload: decrypting again needs a fresh signature
+    if ((stage === "decrypting" || stage === "revealed") && !this.state.result) {
+      this.update({ stage: "ready" });
+    }
+  }
+
+  // Advances on AnalysisCompleted, emitted once the analyzer stores the encrypted results
+  watch(client: BubbleAnalyticsClient) {
+    this.stopWatching();
+    this.unwatch = client.on("AnalysisCompleted", (_, meta) => {
+      if (this.state.stage === "analysing" && meta.blockNumber >= this.state.sinceBlock) {
+        this.update({ stage: "ready", error: null, accessGranted: false });
+      }
+    }, userIdFor(this.account));
+  }
+
+  stopWatching() {
+    this.unwatch?.();
+    this.unwatch = null;
+  }
+
+  // Requests the analysis of the on-chain history, first submitting this browser's history only if there is none
+  async run(client: BubbleAnalyticsClient, history: ReadingHistory) {
+    const start = analysisStart(await client.articleCount(userIdFor(this.account)), history);
+    if (start.action === "empty") {
+      this.update({ error: { stage: "submitted", message: "No articles to analyse yet; add some first" } });
+      return;
+    }
+    if (start.action === "request") {
+      await this.requestAnalysis(client);
+      return;
+    }
+    await this.step("submitted", async () => {
+      const encrypted = await encryptReadingHistory(client.address, this.account, history);
+      return client.submitReadingHistory(userIdFor(this.account), encrypted);
+    });
+    if (this.state.stage === "submitted" && !this.state.error) {
+      await this.requestAnalysis(client);
+    }
+  }
+
+  async requestAnalysis(client: BubbleAnalyticsClient) {
+    await this.step("analysing", () => client.requestAnalysis(userIdFor(this.account)));
+  }
+
+  // Calculates the result on-chain instead of waiting for an analyzer, one transaction per step
+  async calculate(client: BubbleAnalyticsClient) {
+    const userId = userIdFor(this.account);
+    this.update({ busy: true, error: null });
+    try {
+      // The first step clears the previous result, so completion means this calculation finished
+      let receipt = await client.calculateAnalysis(userId);
+      while (!(await client.isAnalysisComplete(userId))) {
+        receipt = await client.calculateAnalysis(userId);
+      }
+      this.update({ stage: "ready", busy: false, sinceBlock: receipt.blockNumber, accessGranted: false, result: null });
+    } catch (e) {
+      console.error("Analysis pipeline on-chain calculation failed:", e);
+      this.update({ busy: false, error: { stage: "analysing", message: errorMessage(e) } });
+    }
+  }
+
+  // Grants the wallet access to the result handles if it lacks it, then decrypts them in this browser
+  async decrypt(client: BubbleAnalyticsClient) {
+    const userId = userIdFor(this.account);
+    if (!this.state.accessGranted && (await this.holdsResultAccess(client, userId))) {
+      this.update({ accessGranted: true });
+    }
+    if (!this.state.accessGranted) {
+      await this.step("decrypting", () => client.grantResultAccess(userId));
+      if (this.state.error) return;
+      this.update({ accessGranted: true });
+    }
+
+    this.update({ stage: "decrypting", busy: true, error: null });
+    try {
+      const result = await client.userDecryptAnalysisResult(userId);
+      this.update({ stage: "revealed", busy: false, result });
+    } catch (e) {
+      console.error("Analysis pipeline private decryption failed:", e);
+      this.update({ busy: false, error: { stage: "decrypting", message: errorMessage(e) } });
+    }
+  }
+
+  // Re-attempts whichever step failed last
+  async retry(client: BubbleAnalyticsClient, history: () => ReadingHistory) {
+    switch (this.state.error?.stage) {
+      case "submitted":
+        return this.run(client, history());
+      case "analysing":
+        // Once the request went through, only the on-chain calculation can have failed at this stage
+        return this.state.stage === "analysing" ? this.calculate(client) : this.requestAnalysis(client);
+      case "decrypting":
+        return this.decrypt(client);
+    }
+  }
+
+  reset() {
+    this.update({ ...INITIAL_STATE });
+  }
+
+  // Results are granted to the registered wallet when stored, which usually makes grantResultAccess unnecessary
+  private async holdsResultAccess(client: BubbleAnalyticsClient, userId: bigint): Promise<boolean> {
+    try {
+      const result = await client.getEncryptedAnalysisResult(userId);
+      if (!result) return false;
+      const handles = [result.diversityScore, ...result.biasVector, ...result.recommendedArticles];
+      return (await AclInspector.connect()).allowedOnAll(handles, this.account);
+    } catch (e) {
+      console.warn("Could not check ACL access; granting it again:", e);
+      return false;
+    }
+  }
+
+  private async step(stage: PipelineStage, action: () => Promise<{ blockNumber: number }>) {
+    this.update({ busy: true, error: null });
+    try {
+      const receipt = await action();
+      this.update({ stage, busy: false, sinceBlock: receipt.blockNumber, result: null });
+    } catch (e) {
+      console.error(`Analysis pipeline step "${stage}" failed:`, e);
+      this.update({ busy: false, error: { stage, message: errorMessage(e) } });
+    }
+  }
+
+  private update(changes: Partial<PipelineState>) {
+    this.state = { ...this.state, ...changes };
+    this.save();
+    this.listeners.forEach(listener => listener(this.state));
+  }
+
+  private get storageKey() {
+    return `${STORAGE_PREFIX}:${this.contractAddress.toLowerCase()}:${this.account.toLowerCase()}`;
+  }
+
+  private load(): PipelineState {
+    try {
+      const raw = this.storage.getItem(this.storageKey);
+      // A reload interrupts any in-flight transaction wait
+      return raw ? { ...INITIAL_STATE, ...JSON.parse(raw), busy: false, result: null } : { ...INITIAL_STATE };
+    } catch {
+      return { ...INITIAL_STATE };
+    }
+  }
+
+  private save() {
+    const { busy, result, ...persisted } = this.state;
+    this.storage.setItem(this.storageKey, JSON.stringify(persisted));
+  }
+}
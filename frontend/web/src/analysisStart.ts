@@ -0,0 +1,19 @@
+// analysisStart.ts
+// How the analysis pipeline starts from what is already on chain. It is kept free of browser and SDK imports so
+// the contract tests can run it against a history appended from another device.
+
+export type AnalysisStart =
+  // The on-chain history is analysed as it stands
+  | { action: "request" }
+  // Nothing is on chain yet, so this browser's history is submitted first
+  | { action: "submit" }
+  // Nothing on chain and nothing added in this browser either
+  | { action: "empty" };
+
+// submitReadingHistory replaces the whole history, so it only ever starts one. This browser knows just the articles
+// added from it: after appends from another device, with its storage cleared, or for records stored before the
+// features were kept, its history is smaller than the one on chain, and submitting it would discard the rest.
+export function analysisStart(onChainArticles: number, local: { articleIds: number[] }): AnalysisStart {
+  if (onChainArticles > 0) return { action: "request" };
+  return local.articleIds.length > 0 ? { action: "submit" } : { action: "empty" };
+}
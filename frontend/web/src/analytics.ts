@@ -0,0 +1,66 @@
+// analytics.ts
+// Plaintext mirror of BubbleAnalytics.calculateAnalysis. It is kept free of browser and SDK imports so the
+// contract tests can hold it to the same exact reference as the contract; a formula change belongs in both.
+
+export const MAX_SCORE = 100;
+export const NEUTRAL_BIAS = 50;
+export const RECOMMENDATION_COUNT = 3;
+// Placeholder article ids are numbered from categoryIndex * RECOMMENDATION_STRIDE + 1
+export const RECOMMENDATION_STRIDE = 1000;
+
+export interface CategoryTotals {
+  // Articles read per category, in registry order
+  categoryScores: number[];
+  // Sum of the articles' sentiments (0 to 100 each) per category
+  sentimentScores: number[];
+}
+
+export interface AnalysisScores {
+  diversityScore: number;
+  biasVector: number[];
+  recommendedArticles: number[];
+}
+
+// Rounds to nearest with halves up, as the contract's encrypted long division does
+function divideRounded(numerator: bigint, denominator: bigint): bigint {
+  return (numerator + denominator / 2n) / denominator;
+}
+
+const atMostMax = (score: bigint) => Number(score > BigInt(MAX_SCORE) ? BigInt(MAX_SCORE) : score);
+
+// Normalised Gini-Simpson index of the category counts: 0 for one category, 100 for an even spread
+export function diversityScore(categoryScores: number[]): number {
+  const k = BigInt(categoryScores.length);
+  const counts = categoryScores.map(BigInt);
+  const total = counts.reduce((sum, c) => sum + c, 0n);
+  if (total === 0n || k < 2n) return 0;
+
+  const totalSquared = total * total;
+  const sumSquares = counts.reduce((sum, c) => sum + c * c, 0n);
+  return atMostMax(divideRounded(BigInt(MAX_SCORE) * k * (totalSquared - sumSquares), (k - 1n) * totalSquared));
+}
+
+// Mean sentiment per category, or neutral for a category without reads
+export function biasVector({ categoryScores, sentimentScores }: CategoryTotals): number[] {
+  return categoryScores.map((count, i) =>
+    count === 0 ? NEUTRAL_BIAS : atMostMax(divideRounded(BigInt(sentimentScores[i]), BigInt(count)))
+  );
+}
+
+// The least-read category, the first one on ties
+export function leastReadCategory(categoryScores: number[]): number {
+  return categoryScores.reduce((least, count, i) => (count < categoryScores[least] ? i : least), 0);
+}
+
+export function recommendedArticles(categoryScores: number[]): number[] {
+  const base = leastReadCategory(categoryScores) * RECOMMENDATION_STRIDE;
+  return Array.from({ length: RECOMMENDATION_COUNT }, (_, j) => base + j + 1);
+}
+
+export function analyzeHistory(history: CategoryTotals): AnalysisScores {
+  return {
+    diversityScore: diversityScore(history.categoryScores),
+    biasVector: biasVector(history),
+    recommendedArticles: recommendedArticles(history.categoryScores)
+  };
+}
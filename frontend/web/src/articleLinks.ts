@@ -0,0 +1,160 @@
+// articleLinks.ts
+import keywordsJson from "./data/categoryKeywords.json";
+import { Outlet, normalizeSourceName, resolveOutlet, sourceDomain } from "./outlets";
+
+export interface ArticleLink {
+  // Without tracking parameters or fragment, so the same article pasted twice is caught
+  url: string;
+  domain: string;
+  outlet: Outlet | null;
+  // What the record stores as its source: the outlet name, or the domain of an unknown outlet, never the URL
+  source: string;
+  // Null when nothing in the URL names one of the categories
+  category: string | null;
+  // The page title where one is known, else a headline recovered from the URL slug; used as the content summary
+  summary: string;
+}
+
+// An article as the add form describes it, ready to be encrypted and stored
+export interface ArticleDraft {
+  source: string;
+  category: string;
+  sentiment: number;
+  content: string;
+}
+
+// A draft waiting in a batch for review, keyed by the link it came from
+export interface PendingArticle extends ArticleDraft {
+  key: string;
+}
+
+// Nothing in a URL says how an article reads, so batches start out neutral
+const NEUTRAL_SENTIMENT = 50;
+
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|mc_cid|mc_eid|ref|cmpid|smid)$/i;
+// Path segments that carry no meaning of their own: dates, ids and the like
+const NOISE_SEGMENT = /^(\d+|[a-z]{0,3}\d{4,}[a-z0-9]*|amp|index|article|articles|story|news)$/i;
+// A section segment such as "/politics/" says more about the category than a word in the slug
+const SECTION_WEIGHT = 2;
+
+const CATEGORY_KEYWORDS = new Map(
+  Object.entries(keywordsJson.keywords as Record<string, string[]>).map(([name, words]) => [name.toLowerCase(), words])
+);
+
+const words = (text: string) => text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+
+// The http(s) links in pasted text, one per article; anything else is ignored
+export function extractLinks(text: string): string[] {
+  const seen = new Set<string>();
+  for (const match of text.match(/https?:\/\/[^\s<>"'()]+/gi) ?? []) {
+    const url = canonicalUrl(match.replace(/[.,;:!?]+$/, ""));
+    if (url) seen.add(url);
+  }
+  return [...seen];
+}
+
+export function canonicalUrl(link: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(link);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+
+  url.hash = "";
+  url.hostname = url.hostname.replace(/^www\./, "");
+  [...url.searchParams.keys()].filter(key => TRACKING_PARAMS.test(key)).forEach(key => url.searchParams.delete(key));
+  return url.toString().replace(/\/$/, "");
+}
+
+const decodeSegment = (segment: string) => {
+  try {
+    return decodeURIComponent(segment);
+  } catch {
+    return segment;
+  }
+};
+
+function pathSegments(url: URL): string[] {
+  return url.pathname
+    .split("/")
+    .map(segment => decodeSegment(segment).replace(/\.(s?html?|php|aspx?)$/i, ""))
+    .filter(segment => segment && !NOISE_SEGMENT.test(segment));
+}
+
+// "/2026/10/17/us/politics/senate-passes-budget-deal.html" reads as "Senate passes budget deal"
+export function slugTitle(url: URL): string | null {
+  const slug = pathSegments(url)
+    .filter(segment => /[-_]/.test(segment))
+    .pop();
+  if (!slug) return null;
+  const title = slug
+    .split(/[-_]+/)
+    // Trailing article ids, as in "/news/world-us-canada-67123456"
+    .filter(word => !/^\d{5,}$/.test(word))
+    .join(" ");
+  return title ? title.charAt(0).toUpperCase() + title.slice(1) : null;
+}
+
+// "Senate passes budget deal | The Guardian" is "Senate passes budget deal" once the outlet is known
+function stripOutletSuffix(title: string, outlet: Outlet | null): string {
+  const names = new Set(outlet ? [outlet.name, ...outlet.aliases].map(normalizeSourceName) : []);
+  let stripped = title;
+  for (;;) {
+    const suffix = /\s+[|\u2013\u2014-]\s+([^|\u2013\u2014]+)$/.exec(stripped);
+    if (!suffix || !names.has(normalizeSourceName(suffix[1]))) return stripped;
+    stripped = stripped.slice(0, suffix.index);
+  }
+}
+
+// The category the URL's sections, slug and title say most about, the first in registry order on ties
+export function guessCategory(url: URL, categories: string[], title: string | null = null): string | null {
+  const segments = pathSegments(url);
+  const sections = new Set(segments.filter(segment => !/[-_]/.test(segment)).flatMap(words));
+  const slugWords = [...segments.filter(segment => /[-_]/.test(segment)), title ?? ""].flatMap(words);
+
+  let best: string | null = null;
+  let bestScore = 0;
+  for (const category of categories) {
+    const keywords = new Set([...words(category), ...(CATEGORY_KEYWORDS.get(category.toLowerCase()) ?? [])]);
+    const score =
+      [...sections].filter(word => keywords.has(word)).length * SECTION_WEIGHT +
+      slugWords.filter(word => keywords.has(word)).length;
+    if (score > bestScore) {
+      best = category;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// Everything the add form can prefill from a link, or null for text that is not an http(s) link.
+// Imports pass the page title their export recorded, which says more than the slug.
+export function parseArticleLink(link: string, categories: string[], title: string | null = null): ArticleLink | null {
+  const canonical = canonicalUrl(link.trim());
+  const domain = canonical && sourceDomain(canonical);
+  if (!canonical || !domain) return null;
+
+  const url = new URL(canonical);
+  const outlet = resolveOutlet(domain);
+  const source = outlet?.name ?? domain;
+  const headline = title?.trim() ? stripOutletSuffix(title.trim(), outlet) : null;
+  return {
+    url: canonical,
+    domain,
+    outlet,
+    source,
+    category: guessCategory(url, categories, headline),
+    summary: headline || slugTitle(url) || `Article from ${source}`
+  };
+}
+
+// Categories the URL says nothing about are left empty for the reviewer to pick
+export const pendingArticle = (link: ArticleLink): PendingArticle => ({
+  key: link.url,
+  source: link.source,
+  category: link.category ?? "",
+  sentiment: NEUTRAL_SENTIMENT,
+  content: link.summary
+});
@@ -0,0 +1,325 @@
+// bubbleAnalytics.ts
+import { ethers } from "ethers";
+import type { BubbleAnalytics } from "../../../types/contracts/BubbleAnalytics";
+import type { TypedContractEvent, TypedEventLog } from "../../../types/common";
+import abiJson from "./abi/BubbleAnalytics.json";
+import { getReadProvider } from "./contract";
+import { contractAddress } from "./deployments";
+import { EncryptedArticle, EncryptedReadingHistory, userDecryptHandles } from "./fhe";
+
+// The frontend copy is the whole Hardhat artifact; the ABI is one of its fields
+export const BUBBLE_ANALYTICS_ABI: ethers.InterfaceAbi = abiJson.abi;
+
+export const analyticsAddress = (): string => contractAddress("BubbleAnalytics");
+
+// A wallet's analytics record is keyed by its address read as a uint256
+export const userIdFor = (address: string): bigint => BigInt(ethers.getAddress(address));
+
+export interface AnalysisResult {
+  diversityScore: number;
+  biasVector: number[];
+  recommendedArticles: number[];
+  isRevealed: boolean;
+}
+
+export interface EncryptedAnalysisResult {
+  diversityScore: string;
+  biasVector: string[];
+  recommendedArticles: string[];
+}
+
+export interface EncryptedReadingHistoryHandles {
+  articleIds: string[];
+  categoryScores: string[];
+  sentimentScores: string[];
+}
+
+export interface ReadingHistorySummary {
+  userId: bigint;
+  timestamp: number;
+}
+
+export interface BubbleAnalyticsEvents {
+  ReadingHistorySubmitted: { userId: bigint; timestamp: bigint };
+  ArticleAppended: { userId: bigint; articleCount: bigint };
+  AnalysisRequested: { userId: bigint };
+  AnalysisCompleted: { userId: bigint };
+  AnalysisCalculationProgress: { userId: bigint; categoriesDone: bigint; categoryCount: bigint };
+  ResultRevealed: { userId: bigint };
+  DecryptionRequested: { userId: bigint; requestId: bigint; timestamp: bigint };
+  ResultAccessGranted: { userId: bigint; account: string };
+  UserRegistered: { userId: bigint; wallet: string };
+  UserWalletProposed: { userId: bigint; wallet: string };
+  AnalyzerUpdated: { account: string; enabled: boolean };
+  AdminTransferred: { previousAdmin: string; newAdmin: string };
+  CategoryAdded: { index: bigint; category: string; version: bigint };
+  HistoryMigrated: { userId: bigint; version: bigint };
+}
+
+export type BubbleAnalyticsEventName = keyof BubbleAnalyticsEvents;
+
+export interface EventMeta {
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export type BubbleAnalyticsListener<E extends BubbleAnalyticsEventName> = (
+  args: BubbleAnalyticsEvents[E],
+  meta: EventMeta
+) => void;
+
+const toNumbers = (values: bigint[]) => values.map(v => Number(v));
+
+// Explanations for the contract's access control reverts, keyed by revert reason
+const ACCESS_DENIED_MESSAGES: Record<string, string> = {
+  "Not the registered wallet":
+    "This reading history belongs to a different wallet; switch back to the wallet that first submitted it",
+  "User already registered": "This user id is already registered to another wallet",
+  "User id is not the caller's address": "A user id is its wallet's own address; another wallet's id cannot be claimed",
+  "Not the proposed wallet": "This wallet was not offered the user id; its registered wallet must offer it first",
+  "User not registered": "No wallet is registered for this user id yet; submit a reading history first",
+  "Caller is not an analyzer": "Only an analyzer account can store analysis results",
+  "Caller is not the admin": "Only the BubbleAnalytics admin can do this"
+};
+
+// The fields of an ethers error that may carry a revert reason
+interface EthersErrorText {
+  reason?: string | null;
+  shortMessage?: string;
+  message?: string;
+}
+
+// Finds a known revert reason in an ethers error and explains it, or returns null
+export function accessDeniedMessage(e: unknown): string | null {
+  const { reason, shortMessage, message } = (e ?? {}) as EthersErrorText;
+  const text = [reason, shortMessage, message].filter(Boolean).join(" ");
+  const known = Object.keys(ACCESS_DENIED_MESSAGES).find(r => text.includes(r));
+  return known ? ACCESS_DENIED_MESSAGES[known] : null;
+}
+
+// Typed against the contract's typechain binding, generated into types/ by npx hardhat compile
+const connect = (address: string, runner: ethers.ContractRunner) =>
+  new ethers.Contract(address, BUBBLE_ANALYTICS_ABI, runner) as unknown as BubbleAnalytics;
+
+export class BubbleAnalyticsClient {
+  constructor(readonly contract: BubbleAnalytics) {}
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  static async readOnly(): Promise<BubbleAnalyticsClient | null> {
+    const address = analyticsAddress();
+    if (!address) return null;
+    try {
+      const provider = await getReadProvider();
+      if ((await provider.getCode(address)) === "0x") return null;
+      return new BubbleAnalyticsClient(connect(address, provider));
+    } catch (error) {
+      console.error("Failed to create read-only BubbleAnalytics client:", error);
+      return null;
+    }
+  }
+
+  static async withSigner(): Promise<BubbleAnalyticsClient> {
+    const address = analyticsAddress();
+    if (!address) throw new Error("BubbleAnalytics is not deployed on this network");
+    if (!window.ethereum) throw new Error("No injected wallet");
+
+    const provider = new ethers.BrowserProvider(window.ethereum);
+    const signer = await provider.getSigner();
+    return new BubbleAnalyticsClient(connect(address, signer));
+  }
+
+  // Reads
+
+  async categories(): Promise<string[]> {
+    return [...(await this.contract.getCategories())];
+  }
+
+  // Bumped by every category the admin adds; indexes of existing categories never change
+  async categoriesVersion(): Promise<bigint> {
+    return this.contract.categoriesVersion();
+  }
+
+  // False for a history recorded before a category was added, until it is migrated
+  async isHistoryCurrent(userId: bigint): Promise<boolean> {
+    return this.contract.isHistoryCurrent(userId);
+  }
+
+  // The wallet a userId is registered to, or null before its first submission
+  async userWallet(userId: bigint): Promise<string | null> {
+    const wallet = await this.contract.userWallets(userId);
+    return wallet === ethers.ZeroAddress ? null : wallet;
+  }
+
+  async admin(): Promise<string> {
+    return this.contract.admin();
+  }
+
+  async isAnalyzer(account: string): Promise<boolean> {
+    return this.contract.analyzers(account);
+  }
+
+  async readingHistory(userId: bigint): Promise<ReadingHistorySummary | null> {
+    const [id, timestamp] = await this.contract.userReadingHistory(userId);
+    return timestamp > 0n ? { userId: id, timestamp: Number(timestamp) } : null;
+  }
+
+  async articleCount(userId: bigint): Promise<number> {
+    if (!(await this.readingHistory(userId))) return 0;
+    const [articleIds] = await this.contract.getEncryptedReadingHistory(userId);
+    return articleIds.length;
+  }
+
+  async getEncryptedReadingHistory(userId: bigint): Promise<EncryptedReadingHistoryHandles | null> {
+    if (!(await this.readingHistory(userId))) return null;
+    const [articleIds, categoryScores, sentimentScores] = await this.contract.getEncryptedReadingHistory(userId);
+    return { articleIds: [...articleIds], categoryScores: [...categoryScores], sentimentScores: [...sentimentScores] };
+  }
+
+  async isAnalysisComplete(userId: bigint): Promise<boolean> {
+    const [, isComplete] = await this.contract.analysisResults(userId);
+    return isComplete;
+  }
+
+  async getEncryptedAnalysisResult(userId: bigint): Promise<EncryptedAnalysisResult | null> {
+    if (!(await this.isAnalysisComplete(userId))) return null;
+    const [diversityScore, biasVector, recommendedArticles] =
+      await this.contract.getEncryptedAnalysisResult(userId);
+    return { diversityScore, biasVector: [...biasVector], recommendedArticles: [...recommendedArticles] };
+  }
+
+  // Decrypts the caller's result client-side; requires grantResultAccess and a signer-backed client
+  async userDecryptAnalysisResult(userId: bigint): Promise<AnalysisResult> {
+    const encrypted = await this.getEncryptedAnalysisResult(userId);
+    if (!encrypted) throw new Error("Analysis not complete");
+
+    const handles = [encrypted.diversityScore, ...encrypted.biasVector, ...encrypted.recommendedArticles];
+    const values = toNumbers(await userDecryptHandles(handles, this.address, this.signer()));
+    const biasEnd = 1 + encrypted.biasVector.length;
+    return {
+      diversityScore: values[0],
+      biasVector: values.slice(1, biasEnd),
+      recommendedArticles: values.slice(biasEnd),
+      isRevealed: true
+    };
+  }
+
+  async getDecryptedAnalysisResult(userId: bigint): Promise<AnalysisResult> {
+    const [diversityScore, biasVector, recommendedArticles, isRevealed] =
+      await this.contract.getDecryptedAnalysisResult(userId);
+    return {
+      diversityScore: Number(diversityScore),
+      biasVector: toNumbers([...biasVector]),
+      recommendedArticles: toNumbers([...recommendedArticles]),
+      isRevealed
+    };
+  }
+
+  // Writes
+
+  async submitReadingHistory(userId: bigint, history: EncryptedReadingHistory) {
+    return this.send(
+      "submitReadingHistory",
+      this.contract.submitReadingHistory(
+        userId,
+        history.articleIds,
+        history.categoryScores,
+        history.sentimentScores,
+        history.inputProof
+      )
+    );
+  }
+
+  // Adds one article to the on-chain history; the article must be encrypted for this contract
+  async appendArticle(userId: bigint, article: EncryptedArticle) {
+    const [categoryIndex, sentiment, articleId] = article.handles;
+    return this.send(
+      "appendArticle",
+      this.contract.appendArticle(userId, categoryIndex, sentiment, articleId, article.inputProof)
+    );
+  }
+
+  async requestAnalysis(userId: bigint) {
+    return this.send("requestAnalysis", this.contract.requestAnalysis(userId));
+  }
+
+  // One step of the on-chain calculation; repeat until AnalysisCompleted is emitted
+  async calculateAnalysis(userId: bigint) {
+    return this.send("calculateAnalysis", this.contract.calculateAnalysis(userId));
+  }
+
+  async requestResultDecryption(userId: bigint) {
+    return this.send("requestResultDecryption", this.contract.requestResultDecryption(userId));
+  }
+
+  async grantResultAccess(userId: bigint) {
+    return this.send("grantResultAccess", this.contract.grantResultAccess(userId));
+  }
+
+  // Pads the histories with zeros for categories added since they were recorded; anyone may send it
+  async migrateHistories(userIds: bigint[]) {
+    return this.send("migrateHistories", this.contract.migrateHistories(userIds));
+  }
+
+  // Events
+
+  on<E extends BubbleAnalyticsEventName>(
+    event: E,
+    listener: BubbleAnalyticsListener<E>,
+    userId?: bigint
+  ): () => void {
+    const filter = this.filter(event, userId);
+    // ethers passes the decoded arguments, then the payload with the log
+    const wrapped = (...args: unknown[]) => {
+      const payload = args[args.length - 1] as ethers.ContractEventPayload;
+      listener(payload.args.toObject() as BubbleAnalyticsEvents[E], {
+        blockNumber: payload.log.blockNumber,
+        transactionHash: payload.log.transactionHash
+      });
+    };
+    this.contract.on(filter, wrapped);
+    return () => {
+      this.contract.off(filter, wrapped);
+    };
+  }
+
+  async queryEvents<E extends BubbleAnalyticsEventName>(
+    event: E,
+    userId?: bigint,
+    fromBlock = 0
+  ): Promise<Array<{ args: BubbleAnalyticsEvents[E] } & EventMeta>> {
+    const logs = await this.contract.queryFilter(this.filter(event, userId), fromBlock);
+    return logs
+      .filter((log): log is TypedEventLog<TypedContractEvent> => "args" in log)
+      .map(log => ({
+        args: log.args.toObject() as BubbleAnalyticsEvents[E],
+        blockNumber: log.blockNumber,
+        transactionHash: log.transactionHash
+      }));
+  }
+
+  // Every event's first indexed argument is the one the events are filtered by
+  private filter(event: BubbleAnalyticsEventName, first?: bigint) {
+    const typed: TypedContractEvent = this.contract.filters[event];
+    return typed(first ?? null);
+  }
+
+  private signer(): ethers.Signer {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") {
+      throw new Error("This action requires a BubbleAnalytics client connected to a signer");
+    }
+    return runner;
+  }
+
+  private async send(
+    method: string,
+    pending: Promise<ethers.ContractTransactionResponse>
+  ): Promise<ethers.TransactionReceipt> {
+    const receipt = await (await pending).wait();
+    if (!receipt) throw new Error(`${method} transaction was dropped`);
+    return receipt;
+  }
+}
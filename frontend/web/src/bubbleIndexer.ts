@@ -0,0 +1,158 @@
+// bubbleIndexer.ts
+import type { UniversalAdapter } from "../../../types/contracts/UniversalAdapter";
+import {
+  BUBBLE_KEYS_KEY,
+  BUBBLE_KEYS_SHARD_PREFIX,
+  BubbleParseError,
+  NewsBubble,
+  bubbleCodec,
+  bubbleKey,
+  bubbleKeysShard,
+  decodeKeys
+} from "./bubbleRepository";
+
+const BUBBLE_PREFIX = bubbleKey("");
+const STORAGE_PREFIX = "bubble-index";
+
+export interface IndexerOptions {
+  fromBlock?: number;
+  chunkSize?: number;
+  storage?: Storage;
+}
+
+export interface IndexerProgress {
+  fromBlock: number;
+  toBlock: number;
+  latestBlock: number;
+}
+
+export interface OrphanedBubble {
+  id: string;
+  writer: string;
+}
+
+export interface IndexResult {
+  bubbles: NewsBubble[];
+  errors: BubbleParseError[];
+  // Stored records that neither the writer's shard nor the legacy index list
+  orphans: OrphanedBubble[];
+  lastBlock: number;
+}
+
+interface IndexerState {
+  lastBlock: number;
+  bubbles: Record<string, NewsBubble>;
+  writers: Record<string, string>;
+  failures: Record<string, string>;
+  shards: Record<string, string[]>;
+}
+
+export class BubbleIndexer {
+  private readonly fromBlock: number;
+  private readonly chunkSize: number;
+  private readonly storage?: Storage;
+  private readonly storageKey: string;
+
+  constructor(
+    private readonly contract: UniversalAdapter,
+    chainId: number,
+    address: string,
+    options: IndexerOptions = {}
+  ) {
+    this.fromBlock = options.fromBlock ?? 0;
+    this.chunkSize = options.chunkSize ?? 5000;
+    this.storage = options.storage ?? (typeof localStorage !== "undefined" ? localStorage : undefined);
+    // A local node reuses addresses across restarts and redeploys, so the chain and deploy block are part of the key
+    this.storageKey = `${STORAGE_PREFIX}:${chainId}:${address.toLowerCase()}:${this.fromBlock}`;
+  }
+
+  // Backfills DataStored logs from the last indexed block up to the chain head
+  async sync(onProgress?: (progress: IndexerProgress) => void): Promise<IndexResult> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) throw new Error("Indexer contract has no provider");
+
+    const state = this.load();
+    const latestBlock = await provider.getBlockNumber();
+    const filter = this.contract.filters.DataStored();
+
+    for (let from = state.lastBlock + 1; from <= latestBlock; from += this.chunkSize) {
+      const to = Math.min(from + this.chunkSize - 1, latestBlock);
+      const logs = await this.contract.queryFilter(filter, from, to);
+
+      for (const log of logs) {
+        this.apply(state, log.args.sender, log.args.key, log.args.value);
+      }
+
+      state.lastBlock = to;
+      this.save(state);
+      onProgress?.({ fromBlock: from, toBlock: to, latestBlock });
+    }
+
+    return this.toResult(state);
+  }
+
+  reset() {
+    this.storage?.removeItem(this.storageKey);
+  }
+
+  private apply(state: IndexerState, sender: string, key: string, value: string) {
+    if (key === BUBBLE_KEYS_KEY || key.startsWith(BUBBLE_KEYS_SHARD_PREFIX)) {
+      // A shard only counts when its own writer stored it
+      if (key !== BUBBLE_KEYS_KEY && key !== bubbleKeysShard(sender)) return;
+      try {
+        state.shards[key] = decodeKeys(key, value);
+      } catch {
+        state.shards[key] = [];
+      }
+      return;
+    }
+    if (!key.startsWith(BUBBLE_PREFIX)) return;
+
+    const id = key.slice(BUBBLE_PREFIX.length);
+    delete state.bubbles[id];
+    delete state.writers[id];
+    delete state.failures[id];
+    if (value === "0x") return;
+
+    state.writers[id] = sender.toLowerCase();
+
+    try {
+      state.bubbles[id] = bubbleCodec.decode(id, value);
+    } catch (e) {
+      state.failures[id] = e instanceof BubbleParseError ? e.reason : String(e);
+    }
+  }
+
+  private toResult(state: IndexerState): IndexResult {
+    const bubbles = Object.values(state.bubbles)
+      .map(bubble => ({ ...bubble, owner: state.writers[bubble.id] }))
+      .sort((a, b) => b.timestamp - a.timestamp);
+    const errors = Object.entries(state.failures).map(
+      ([id, reason]) => new BubbleParseError(bubbleKey(id), reason)
+    );
+
+    const indexed = new Set(Object.values(state.shards).flat());
+    const orphans = Object.keys(state.writers)
+      .filter(id => !indexed.has(id))
+      .map(id => ({ id, writer: state.writers[id] }));
+
+    return { bubbles, errors, orphans, lastBlock: state.lastBlock };
+  }
+
+  private load(): IndexerState {
+    const empty = { lastBlock: this.fromBlock - 1, bubbles: {}, writers: {}, failures: {}, shards: {} };
+    const raw = this.storage?.getItem(this.storageKey);
+    if (!raw) return empty;
+
+    try {
+      const state = JSON.parse(raw) as IndexerState;
+      return state.lastBlock >= empty.lastBlock && state.shards ? state : empty;
+    } catch {
+      return empty;
+    }
+  }
+
+  private save(state: IndexerState) {
+    this.storage?.setItem(this.storageKey, JSON.stringify(state));
+  }
+}
@@ -0,0 +1,223 @@
+// bubbleRepository.ts
+import { ethers } from "ethers";
+import type { UniversalAdapter } from "../../../types/contracts/UniversalAdapter";
+
+// Legacy global index, read-only: concurrent writers used to overwrite each other here
+export const BUBBLE_KEYS_KEY = "bubble_keys";
+export const BUBBLE_KEYS_SHARD_PREFIX = `${BUBBLE_KEYS_KEY}_`;
+export const bubbleKey = (id: string) => `bubble_${id}`;
+// Each writer only ever appends to its own shard, so writers never race each other
+export const bubbleKeysShard = (writer: string) => `${BUBBLE_KEYS_SHARD_PREFIX}${writer.toLowerCase()}`;
+
+export interface NewsBubble {
+  id: string;
+  timestamp: number;
+  // As the user typed it
+  source: string;
+  // Canonical outlet the source resolved to, see outlets.ts; null when it matched none
+  outletId: string | null;
+  biasScore: number;
+  // Source rating dataset version biasScore came from; null for records stored before ratings existed
+  ratingVersion: string | null;
+  // Wallet that stored the record, known only when read from DataStored logs
+  owner?: string;
+}
+
+export type NewsBubbleInput = Omit<NewsBubble, "id" | "owner">;
+
+export interface BubblePage {
+  items: NewsBubble[];
+  errors: BubbleParseError[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export class BubbleParseError extends Error {
+  readonly key: string;
+  readonly reason: string;
+
+  constructor(key: string, reason: string, cause?: unknown) {
+    super(`Failed to parse ${key}: ${reason}`, { cause });
+    this.name = "BubbleParseError";
+    this.key = key;
+    this.reason = reason;
+  }
+}
+
+export class BubbleNotFoundError extends Error {
+  readonly id: string;
+
+  constructor(id: string) {
+    super(`Bubble ${id} not found`);
+    this.name = "BubbleNotFoundError";
+    this.id = id;
+  }
+}
+
+const isEmpty = (value: string) => ethers.dataLength(value) === 0;
+
+// Serialises index writes between tabs of the same browser where the Web Locks API exists
+const withIndexLock = async <T>(writer: string, fn: () => Promise<T>): Promise<T> => {
+  const locks = typeof navigator !== "undefined" ? navigator.locks : undefined;
+  if (!locks) return fn();
+  return locks.request(bubbleKeysShard(writer), fn);
+};
+
+const decodeJson = (key: string, value: string): unknown => {
+  try {
+    return JSON.parse(ethers.toUtf8String(value));
+  } catch (e) {
+    throw new BubbleParseError(key, "invalid JSON payload", e);
+  }
+};
+
+export const decodeKeys = (key: string, value: string): string[] => {
+  if (isEmpty(value)) return [];
+
+  const keys = decodeJson(key, value);
+  if (!Array.isArray(keys) || keys.some(k => typeof k !== "string")) {
+    throw new BubbleParseError(key, "expected an array of ids");
+  }
+  return keys;
+};
+
+export const bubbleCodec = {
+  encode(bubble: NewsBubbleInput): Uint8Array {
+    return ethers.toUtf8Bytes(JSON.stringify({
+      timestamp: bubble.timestamp,
+      source: bubble.source,
+      outletId: bubble.outletId,
+      biasScore: bubble.biasScore,
+      ratingVersion: bubble.ratingVersion
+    }));
+  },
+
+  // Records stored before the category was kept off-chain still carry it and their ciphertexts; both are ignored
+  decode(id: string, value: string): NewsBubble {
+    const key = bubbleKey(id);
+    const raw = decodeJson(key, value) as Record<string, any> | null;
+    if (!raw || typeof raw !== "object") {
+      throw new BubbleParseError(key, "payload is not an object");
+    }
+    if (typeof raw.timestamp !== "number" || typeof raw.source !== "string") {
+      throw new BubbleParseError(key, "missing timestamp or source");
+    }
+    return {
+      id,
+      timestamp: raw.timestamp,
+      source: raw.source,
+      outletId: typeof raw.outletId === "string" ? raw.outletId : null,
+      biasScore: typeof raw.biasScore === "number" ? raw.biasScore : 0,
+      ratingVersion: typeof raw.ratingVersion === "string" ? raw.ratingVersion : null
+    };
+  }
+};
+
+export class BubbleRepository {
+  constructor(private readonly contract: UniversalAdapter) {}
+
+  // Keys are stored oldest first; pages are served newest first
+  async keys(writer?: string): Promise<string[]> {
+    const key = writer ? bubbleKeysShard(writer) : BUBBLE_KEYS_KEY;
+    return decodeKeys(key, await this.contract.getData(key));
+  }
+
+  async list(page = 0, pageSize = 20, writer?: string): Promise<BubblePage> {
+    const keys = (await this.keys(writer)).reverse();
+    const slice = keys.slice(page * pageSize, (page + 1) * pageSize);
+
+    const items: NewsBubble[] = [];
+    const errors: BubbleParseError[] = [];
+    const results = await Promise.allSettled(slice.map(id => this.get(id)));
+    results.forEach((result, i) => {
+      if (result.status === "fulfilled") {
+        if (result.value) items.push(result.value);
+      } else if (result.reason instanceof BubbleParseError) {
+        errors.push(result.reason);
+      } else {
+        errors.push(new BubbleParseError(bubbleKey(slice[i]), "could not be loaded", result.reason));
+      }
+    });
+
+    items.sort((a, b) => b.timestamp - a.timestamp);
+    return { items, errors, page, pageSize, total: keys.length };
+  }
+
+  async get(id: string): Promise<NewsBubble | null> {
+    const value = await this.contract.getData(bubbleKey(id));
+    if (isEmpty(value)) return null;
+    return bubbleCodec.decode(id, value);
+  }
+
+  // A batch passes index: false and indexes all its records at once afterwards, saving a transaction per record
+  async create(input: NewsBubbleInput, { index = true } = {}): Promise<NewsBubble> {
+    const id = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+    // Record first: if indexing fails afterwards, repair() picks the orphan up on the next load
+    await this.write(bubbleKey(id), bubbleCodec.encode(input));
+    if (index) await this.index([id]);
+
+    return { id, ...input };
+  }
+
+  // Adds records to the writer's index shard in one transaction; returns those it did not list yet
+  async index(ids: string[]): Promise<string[]> {
+    return this.appendKeys(await this.writer(), ids);
+  }
+
+  // Adds records that were stored but never made it into the writer's index shard
+  async repair(ids: string[]): Promise<string[]> {
+    return this.index(ids);
+  }
+
+  async update(id: string, changes: Partial<NewsBubbleInput>): Promise<NewsBubble> {
+    const current = await this.get(id);
+    if (!current) throw new BubbleNotFoundError(id);
+
+    const { id: _, ...rest } = current;
+    const next = { ...rest, ...changes };
+    await this.write(bubbleKey(id), bubbleCodec.encode(next));
+    return { id, ...next };
+  }
+
+  async remove(id: string): Promise<void> {
+    const writer = await this.writer();
+    await withIndexLock(writer, async () => {
+      const keys = await this.keys(writer);
+      if (!keys.includes(id)) throw new BubbleNotFoundError(id);
+
+      await this.write(
+        bubbleKeysShard(writer),
+        ethers.toUtf8Bytes(JSON.stringify(keys.filter(k => k !== id)))
+      );
+    });
+    await this.write(bubbleKey(id), "0x");
+  }
+
+  private async appendKeys(writer: string, ids: string[]): Promise<string[]> {
+    return withIndexLock(writer, async () => {
+      const keys = await this.keys(writer);
+      const added = ids.filter(id => !keys.includes(id));
+      if (added.length > 0) {
+        await this.write(
+          bubbleKeysShard(writer),
+          ethers.toUtf8Bytes(JSON.stringify([...keys, ...added]))
+        );
+      }
+      return added;
+    });
+  }
+
+  private async writer(): Promise<string> {
+    const runner = this.contract.runner as ethers.Signer | null;
+    if (!runner || typeof runner.getAddress !== "function") {
+      throw new Error("Writing bubbles requires a contract connected to a signer");
+    }
+    return (await runner.getAddress()).toLowerCase();
+  }
+
+  private async write(key: string, value: ethers.BytesLike) {
+    const tx = await this.contract.setData(key, value);
+    await tx.wait();
+  }
+}
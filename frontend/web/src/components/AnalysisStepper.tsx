@@ -0,0 +1,73 @@
+import React from 'react';
+import { PIPELINE_STEPS, PipelineState, stageReached } from '../analysisPipeline';
+
+interface AnalysisStepperProps {
+  state: PipelineState;
+  canRun: boolean;
+  onRun: () => void;
+  onCalculate: () => void;
+  onRequestDecryption: () => void;
+  onRetry: () => void;
+}
+
+const WAITING_HINTS: Record<string, string> = {
+  analysing: 'Waiting for the analyzer to store your encrypted results, or calculate them on-chain yourself...',
+  decrypting: 'Sign the decryption request in your wallet; results are decrypted only in this browser...'
+};
+
+export default function AnalysisStepper({
+  state,
+  canRun,
+  onRun,
+  onCalculate,
+  onRequestDecryption,
+  onRetry
+}: AnalysisStepperProps) {
+  const { stage, busy, error } = state;
+
+  const stepClass = (step: string) => {
+    if (error?.stage === step) return 'pipeline-step failed';
+    if (stage === step) return 'pipeline-step current';
+    return stageReached(stage, step as PipelineState['stage']) ? 'pipeline-step done' : 'pipeline-step';
+  };
+
+  return (
+    <div className="analysis-pipeline glass-card">
+      <ol className="pipeline-steps">
+        {PIPELINE_STEPS.map((step, i) => (
+          <li key={step.stage} className={stepClass(step.stage)}>
+            <span className="pipeline-marker">{i + 1}</span>
+            <span className="pipeline-label">{step.label}</span>
+          </li>
+        ))}
+      </ol>
+
+      {error && (
+        <div className="pipeline-error">
+          <span>{error.message}</span>
+          <button className="glass-button small" onClick={onRetry} disabled={busy}>
+            {busy ? 'Retrying...' : 'Retry'}
+          </button>
+        </div>
+      )}
+
+      {!error && WAITING_HINTS[stage] && <p className="pipeline-hint">{WAITING_HINTS[stage]}</p>}
+
+      <div className="pipeline-actions">
+        {stage === 'analysing' && (
+          <button className="glass-button primary" onClick={onCalculate} disabled={busy}>
+            {busy ? 'Calculating...' : 'Calculate On-Chain'}
+          </button>
+        )}
+        {stage === 'ready' && (
+          <button className="glass-button primary" onClick={onRequestDecryption} disabled={busy}>
+            {busy ? 'Decrypting...' : 'Decrypt Privately'}
+          </button>
+        )}
+        <button className="glass-button" onClick={onRun} disabled={busy || !canRun}>
+          {busy && stage !== 'ready' && stage !== 'analysing' ? 'Submitting...' : stage === 'idle' ? 'Analyse My Reading History' : 'Re-run Analysis'}
+        </button>
+      </div>
+    </div>
+  );
+}
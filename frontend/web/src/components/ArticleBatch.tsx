@@ -0,0 +1,69 @@
+import React from 'react';
+import { PendingArticle } from '../articleLinks';
+
+interface ArticleBatchProps {
+  articles: PendingArticle[];
+  categories: string[];
+  sentiments: { label: string; value: number }[];
+  disabled: boolean;
+  onChange: (article: PendingArticle) => void;
+  onRemove: (key: string) => void;
+}
+
+export default function ArticleBatch({ articles, categories, sentiments, disabled, onChange, onRemove }: ArticleBatchProps) {
+  if (articles.length === 0) {
+    return <p className="article-batch-empty">No articles waiting. Paste some links above to start a batch.</p>;
+  }
+
+  return (
+    <ul className="article-batch">
+      {articles.map(article => (
+        <li key={article.key} className={article.category && article.content ? '' : 'incomplete'}>
+          <div className="article-batch-header">
+            <span className="article-batch-source">{article.source}</span>
+            <button
+              className="close-button"
+              onClick={() => onRemove(article.key)}
+              disabled={disabled}
+              title="Remove from the batch"
+            >
+              &times;
+            </button>
+          </div>
+
+          <input
+            type="text"
+            value={article.content}
+            onChange={(e) => onChange({ ...article, content: e.target.value })}
+            className="glass-input"
+            disabled={disabled}
+          />
+
+          <div className="article-batch-fields">
+            <select
+              value={article.category}
+              onChange={(e) => onChange({ ...article, category: e.target.value })}
+              className="glass-select"
+              disabled={disabled}
+            >
+              {!article.category && <option value="">Pick a category...</option>}
+              {categories.map(c => (
+                <option key={c} value={c}>{c}</option>
+              ))}
+            </select>
+            <select
+              value={article.sentiment}
+              onChange={(e) => onChange({ ...article, sentiment: Number(e.target.value) })}
+              className="glass-select"
+              disabled={disabled}
+            >
+              {sentiments.map(s => (
+                <option key={s.value} value={s.value}>{s.label}</option>
+              ))}
+            </select>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { AccessCandidate, AclInspector, DataAccessReport, HANDLE_GROUPS } from '../acl';
+import { BubbleAnalyticsClient, userIdFor } from '../bubbleAnalytics';
+
+interface DataAccessPanelProps {
+  account: string;
+}
+
+const ROLE_LABELS: Record<string, string> = {
+  contract: 'BubbleAnalytics',
+  owner: 'You',
+  'former-owner': 'Former wallet',
+  admin: 'Admin',
+  analyzer: 'Analyzer',
+  granted: 'Granted by you'
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+const candidateLabel = (candidate: AccessCandidate) =>
+  candidate.roles.map(role => ROLE_LABELS[role]).join(' / ');
+
+export default function DataAccessPanel({ account }: DataAccessPanelProps) {
+  const [report, setReport] = useState<DataAccessReport | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A report for another wallet would be misleading
+  useEffect(() => {
+    setReport(null);
+    setError(null);
+  }, [account]);
+
+  const inspect = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const client = await BubbleAnalyticsClient.readOnly();
+      if (!client) throw new Error('BubbleAnalytics is not deployed on this network');
+      const inspector = await AclInspector.connect();
+      setReport(await inspector.inspect(client, userIdFor(account)));
+    } catch (e: any) {
+      console.error('Failed to inspect ACL permissions:', e);
+      setError(e.message || 'Failed to inspect ACL permissions');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const groups = report
+    ? HANDLE_GROUPS.map(group => ({ group, handles: report.handles.filter(h => h.group === group) }))
+        .filter(g => g.handles.length > 0)
+    : [];
+
+  const cell = (handles: DataAccessReport['handles'], allowed: (h: DataAccessReport['handles'][number]) => boolean) => {
+    const count = handles.filter(allowed).length;
+    if (count === 0) return <td className="access-none">No</td>;
+    if (count === handles.length) return <td className="access-all">Yes</td>;
+    return <td className="access-some">{count} of {handles.length}</td>;
+  };
+
+  return (
+    <div className="data-access glass-card">
+      <div className="data-access-header">
+        <h3>Who can see my data</h3>
+        <button className="glass-button small" onClick={inspect} disabled={loading}>
+          {loading ? 'Checking...' : report ? 'Check again' : 'Check'}
+        </button>
+      </div>
+      <p className="pipeline-hint">
+        Your history and results are stored encrypted; only accounts the ACL allows can use or decrypt them.
+      </p>
+
+      {error && <div className="pipeline-error"><span>{error}</span></div>}
+
+      {report && groups.length === 0 && <p className="pipeline-hint">Nothing is stored for this wallet yet.</p>}
+
+      {report && groups.length > 0 && (
+        <table className="data-access-table">
+          <thead>
+            <tr>
+              <th>Data</th>
+              {report.candidates.map(c => (
+                <th key={c.address} title={c.address}>
+                  {candidateLabel(c)}
+                  <span className="access-address">{shortAddress(c.address)}</span>
+                </th>
+              ))}
+              <th>Anyone (public decryption)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {groups.map(({ group, handles }) => (
+              <tr key={group}>
+                <td>{group} ({handles.length})</td>
+                {report.candidates.map(c => (
+                  <React.Fragment key={c.address}>{cell(handles, h => h.allowed.includes(c.address))}</React.Fragment>
+                ))}
+                {cell(handles, h => h.publiclyDecryptable)}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
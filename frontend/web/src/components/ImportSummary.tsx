@@ -0,0 +1,36 @@
+import React from 'react';
+import { ImportFormat, ImportPreview, MAX_IMPORTED_ARTICLES } from '../readingImports';
+
+interface ImportSummaryProps {
+  preview: ImportPreview | null;
+}
+
+const FORMAT_LABELS: Record<ImportFormat, string> = {
+  'browser-history': 'browser history',
+  'read-later': 'read-later export',
+  opml: 'subscription list'
+};
+
+export default function ImportSummary({ preview }: ImportSummaryProps) {
+  if (!preview) {
+    return (
+      <p className="import-summary">
+        Chrome or Firefox history (JSON), a Pocket or Instapaper export (CSV) or a feed subscription list (OPML).
+        Only articles from known news outlets are kept.
+      </p>
+    );
+  }
+
+  const dropped = [
+    preview.duplicates > 0 && `${preview.duplicates} already queued, stored or repeated`,
+    preview.skipped > 0 && `${preview.skipped} not an article from a known news outlet`,
+    preview.truncated > 0 && `${preview.truncated} older ones over the ${MAX_IMPORTED_ARTICLES} article limit`
+  ].filter(Boolean);
+
+  return (
+    <p className="import-summary">
+      Added {preview.articles.length} of {preview.found} entries from the {FORMAT_LABELS[preview.format]} to the batch
+      {dropped.length > 0 ? `; left out ${dropped.join(', ')}.` : '.'}
+    </p>
+  );
+}
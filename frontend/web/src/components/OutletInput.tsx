@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Outlet, matchOutlets, resolveOutlet } from '../outlets';
+
+interface OutletInputProps {
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const describe = (outlet: Outlet) =>
+  [outlet.country, outlet.language, outlet.group].filter(Boolean).join(' · ');
+
+export default function OutletInput({ value, onChange }: OutletInputProps) {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(0);
+
+  const resolved = value.trim() ? resolveOutlet(value) : null;
+  // Once the text names an outlet exactly there is nothing left to suggest
+  const suggestions = open && resolved?.name !== value ? matchOutlets(value) : [];
+
+  const choose = (outlet: Outlet) => {
+    onChange(outlet.name);
+    setOpen(false);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : suggestions.length - 1;
+      setHighlighted((highlighted + step) % suggestions.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      choose(suggestions[Math.min(highlighted, suggestions.length - 1)].outlet);
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="outlet-input">
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setHighlighted(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        // Delayed so a click on a suggestion lands before the list closes
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        onKeyDown={onKeyDown}
+        placeholder="e.g. New York Times, bbc.co.uk, a link to an article"
+        className="glass-input"
+        autoComplete="off"
+      />
+
+      {suggestions.length > 0 && (
+        <ul className="outlet-suggestions glass-card">
+          {suggestions.map(({ outlet, matched }, i) => (
+            <li
+              key={outlet.id}
+              className={i === highlighted ? 'highlighted' : ''}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => choose(outlet)}
+            >
+              <span>{outlet.name}</span>
+              <span className="outlet-detail">
+                {matched !== outlet.name ? `${matched} · ` : ''}{describe(outlet)}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {value.trim() && (
+        <p className="outlet-status">
+          {resolved
+            ? `Recorded as ${resolved.name} (${describe(resolved)})`
+            : 'Not a known outlet; it is recorded as typed and shown as unrated'}
+        </p>
+      )}
+    </div>
+  );
+}
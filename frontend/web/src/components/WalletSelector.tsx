@@ -1,4 +1,6 @@
 import React, { useState, useEffect, useRef } from 'react';
+import { hasDeployment } from '../deployments';
+import { activeNetwork, chainIdHex } from '../networks';
 
 interface WalletInfo {
   name: string;
@@ -355,8 +357,11 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
 
     try {
-      // Auto-switch to Sepolia testnet
-      await switchToSepolia(wallet.provider);
+      // Keep a chain the app has a deployment on; otherwise switch to the default one
+      const walletChainId = Number(await wallet.provider.request({ method: 'eth_chainId' }));
+      if (!hasDeployment(walletChainId)) {
+        await switchToActiveNetwork(wallet.provider);
+      }
       onWalletSelect(wallet);
     } catch (error) {
       console.error('Error switching network:', error);
@@ -365,11 +370,12 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
     }
   };
 
-  const switchToSepolia = async (provider: any) => {
+  const switchToActiveNetwork = async (provider: any) => {
+    const network = activeNetwork();
     try {
       await provider.request({
         method: 'wallet_switchEthereumChain',
-        params: [{ chainId: '0xaa36a7' }], // Sepolia chainId
+        params: [{ chainId: chainIdHex(network) }],
       });
     } catch (switchError: any) {
       if (switchError.code === 4902) {
@@ -377,22 +383,16 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           await provider.request({
             method: 'wallet_addEthereumChain',
             params: [{
-              chainId: '0xaa36a7',
-              chainName: 'Sepolia',
-              nativeCurrency: {
-                name: 'Sepolia Ether',
-                symbol: 'SEP',
-                decimals: 18
-              },
-              rpcUrls: [
-                'https://rpc.sepolia.org',
-                'https://eth-sepolia.public.blastapi.io',
-              ],
-              blockExplorerUrls: ['https://sepolia.etherscan.io/']
+              chainId: chainIdHex(network),
+              chainName: network.chainName,
+              nativeCurrency: network.nativeCurrency,
+              rpcUrls: network.rpcUrls,
+              // Wallets reject an empty explorer list, and a local node has none
+              blockExplorerUrls: network.blockExplorerUrls.length ? network.blockExplorerUrls : undefined
             }]
           });
         } catch (addError) {
-          console.error('Error adding Sepolia network:', addError);
+          console.error(`Error adding ${network.chainName} network:`, addError);
           // Don't throw, let the main app handle it
         }
       }
@@ -708,7 +708,7 @@ const WalletSelector: React.FC<WalletSelectorProps> = ({ isOpen, onWalletSelect,
           border: '1px solid var(--border-color)'
         }}>
           <div style={{ marginBottom: '6px' }}>
-            Wallet will automatically switch to Sepolia testnet
+            Wallets on an unsupported network will switch to {activeNetwork().chainName}
           </div>
         </div>
       </div>
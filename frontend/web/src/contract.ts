@@ -1,10 +1,11 @@
 // contract.ts
 import { ethers } from "ethers";
 import abiJson from "./abi/UniversalAdapter.json";
-import configJson from "./config.json";
+import { contractAddress } from "./deployments";
+import { activeNetwork } from "./networks";
+import type { UniversalAdapter } from "../../../types/contracts/UniversalAdapter";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -18,19 +19,15 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
   }
 };
 
-const getTestnetProvider = async () => {
-  const rpcUrls = [
-    "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
-    "https://rpc.sepolia.org",
-    "https://rpc2.sepolia.org",
-    "https://eth-sepolia.public.blastapi.io"
-  ];
+// Read-only provider for the configured network, trying each of its RPC endpoints in turn
+export const getReadProvider = async () => {
+  const network = activeNetwork();
   
-  for (const url of rpcUrls) {
+  for (const url of network.rpcUrls) {
     try {
       const provider = new ethers.JsonRpcProvider(url, {
-        name: "sepolia",
-        chainId: 11155111
+        name: network.key,
+        chainId: network.chainId
       });
       
       const blockNumber = await Promise.race([
@@ -47,15 +44,17 @@ const getTestnetProvider = async () => {
     }
   }
   
-  throw new Error("All RPC providers failed");
+  throw new Error(`All ${network.chainName} RPC providers failed`);
 };
 
-export async function getContractReadOnly() {
+export async function getContractReadOnly(): Promise<UniversalAdapter | null> {
   try {
-    const provider = await getTestnetProvider();
-    const contract = new ethers.Contract(config.contractAddress, ABI, provider);
+    const provider = await getReadProvider();
+    const address = contractAddress("UniversalAdapter");
+    if (!address) return null;
+    const contract = new ethers.Contract(address, ABI, provider) as unknown as UniversalAdapter;
     
-    const code = await retry(() => provider.getCode(config.contractAddress));
+    const code = await retry(() => provider.getCode(address));
     if (code === "0x") {
       return null;
     }
@@ -67,14 +66,16 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
+export async function getContractWithSigner(): Promise<UniversalAdapter> {
   if (!(window as any).ethereum) {
     throw new Error("No injected wallet");
   }
   try {
     const provider = new ethers.BrowserProvider((window as any).ethereum);
     const signer = await provider.getSigner();
-    const contract = new ethers.Contract(config.contractAddress, ABI, signer);
+    const address = contractAddress("UniversalAdapter");
+    if (!address) throw new Error("UniversalAdapter is not deployed on this network");
+    const contract = new ethers.Contract(address, ABI, signer) as unknown as UniversalAdapter;
     return contract;
   } catch (error) {
     console.error("Failed to create contract with signer:", error);
@@ -0,0 +1,67 @@
+// deployments.ts
+import manifestJson from "./deployments.json";
+
+// Written by deploy/deploy.ts, one entry per chain id
+export type ContractName = "UniversalAdapter" | "BubbleAnalytics";
+
+export interface ContractDeployment {
+  address: string;
+  txHash: string;
+  blockNumber: number;
+  abiHash: string;
+}
+
+export interface ChainDeployment {
+  chainId: number;
+  network: string;
+  deployer: string;
+  deployedAt: string;
+  contracts: Partial<Record<ContractName, ContractDeployment>>;
+}
+
+export const manifest = manifestJson as Record<string, ChainDeployment>;
+
+const SEPOLIA_CHAIN_ID = 11155111;
+
+// Without a wallet to ask, prefer Sepolia, then whichever chain was deployed to
+const defaultChainId = (): number =>
+  manifest[SEPOLIA_CHAIN_ID] ? SEPOLIA_CHAIN_ID : Number(Object.keys(manifest)[0] ?? SEPOLIA_CHAIN_ID);
+
+let selectedChainId = defaultChainId();
+
+// Every chain with a deployment, or only those where the named contract was deployed
+export const deployedChainIds = (name?: ContractName): number[] =>
+  Object.values(manifest)
+    .filter(entry => !name || entry.contracts[name])
+    .map(entry => entry.chainId);
+
+export const hasDeployment = (chainId: number) => Boolean(manifest[chainId]);
+
+export const activeChainId = () => selectedChainId;
+
+export const activeDeployment = (): ChainDeployment | null => manifest[selectedChainId] ?? null;
+
+// Returns false, keeping the current selection, when nothing is deployed on that chain
+export function selectChain(chainId: number): boolean {
+  if (!hasDeployment(chainId)) return false;
+  selectedChainId = chainId;
+  return true;
+}
+
+export const contractDeployment = (name: ContractName): ContractDeployment | null =>
+  activeDeployment()?.contracts[name] ?? null;
+
+export const contractAddress = (name: ContractName): string => contractDeployment(name)?.address ?? "";
+
+// Selects the injected wallet's current chain, if it has a deployment; no account access is requested
+export async function selectWalletChain(ethereum = (window as any).ethereum): Promise<number | null> {
+  if (!ethereum) return null;
+  try {
+    const chainId = Number(await ethereum.request({ method: "eth_chainId" }));
+    selectChain(chainId);
+    return chainId;
+  } catch (e) {
+    console.warn("Could not read the wallet's chain:", e);
+    return null;
+  }
+}
@@ -0,0 +1,187 @@
+// fhe.ts
+import { ethers } from "ethers";
+import { createInstance, initSDK, SepoliaConfig } from "@zama-fhe/relayer-sdk/bundle";
+import type { FhevmInstance } from "@zama-fhe/relayer-sdk/bundle";
+import { activeNetwork, isLocalNetwork } from "./networks";
+
+export interface ArticleFeatures {
+  categoryIndex: number;
+  sentiment: number;
+  articleId: number;
+}
+
+export interface EncryptedArticle {
+  // Order matches the add32 calls in encryptArticle, and BubbleAnalytics.appendArticle: category, sentiment, article id
+  handles: string[];
+  inputProof: string;
+}
+
+// Fixed gateway verifier addresses that @fhevm/hardhat-plugin signs mock proofs and decryptions for
+const MOCK_DECRYPTION_ADDRESS = "0x5ffdaAB0373E62E2ea2944776209aEf29E631A64";
+const MOCK_INPUT_VERIFICATION_ADDRESS = "0x812b06e1CDCE800494b79fFE4f925A504a9A9810";
+
+interface RelayerMetadata {
+  chainId: number;
+  gatewayChainId: number;
+  ACLAddress: string;
+  KMSVerifierAddress: string;
+  InputVerifierAddress: string;
+}
+
+async function fetchMockMetadata(provider: ethers.JsonRpcProvider): Promise<RelayerMetadata> {
+  try {
+    return await provider.send("fhevm_relayer_metadata", []);
+  } catch (e) {
+    throw new Error("Local node does not expose the fhevm mock; start it with `npx hardhat node`");
+  }
+}
+
+// A Hardhat node running the fhevm plugin answers the relayer calls itself, so no relayer SDK is needed
+async function createMockInstance(): Promise<FhevmInstance> {
+  const provider = new ethers.JsonRpcProvider(activeNetwork().rpcUrls[0]);
+  const metadata = await fetchMockMetadata(provider);
+
+  const { MockFhevmInstance } = await import("@fhevm/mock-utils");
+  const instance = await MockFhevmInstance.create(provider, provider, {
+    aclContractAddress: metadata.ACLAddress,
+    chainId: metadata.chainId,
+    gatewayChainId: metadata.gatewayChainId,
+    inputVerifierContractAddress: metadata.InputVerifierAddress,
+    kmsContractAddress: metadata.KMSVerifierAddress,
+    verifyingContractAddressDecryption: MOCK_DECRYPTION_ADDRESS,
+    verifyingContractAddressInputVerification: MOCK_INPUT_VERIFICATION_ADDRESS
+  });
+  return instance as unknown as FhevmInstance;
+}
+
+// The ACL recording who may use each ciphertext handle; the local mock deploys its own at a different address
+export async function getAclAddress(): Promise<string> {
+  if (!isLocalNetwork()) return SepoliaConfig.aclContractAddress;
+  const metadata = await fetchMockMetadata(new ethers.JsonRpcProvider(activeNetwork().rpcUrls[0]));
+  return metadata.ACLAddress;
+}
+
+let instancePromise: Promise<FhevmInstance> | null = null;
+let instanceChainId: number | null = null;
+
+export function getFhevmInstance(): Promise<FhevmInstance> {
+  // An instance is bound to one chain's FHE keys, so switching chains starts over
+  if (!instancePromise || instanceChainId !== activeNetwork().chainId) {
+    instanceChainId = activeNetwork().chainId;
+    const promise = (async () => {
+      if (isLocalNetwork()) return createMockInstance();
+      await initSDK();
+      return createInstance({
+        ...SepoliaConfig,
+        network: (window as any).ethereum
+      });
+    })();
+    instancePromise = promise;
+    // Let the next caller retry instead of caching a failed initialisation
+    promise.catch(() => {
+      if (instancePromise === promise) instancePromise = null;
+    });
+  }
+  return instancePromise;
+}
+
+// Derives a stable uint32 article identifier from the article itself
+export function toArticleId(source: string, content: string): number {
+  const hash = ethers.keccak256(ethers.toUtf8Bytes(`${source.trim()}\n${content.trim()}`));
+  return Number.parseInt(hash.slice(2, 10), 16);
+}
+
+export async function encryptArticle(
+  contractAddress: string,
+  userAddress: string,
+  features: ArticleFeatures
+): Promise<EncryptedArticle> {
+  const instance = await getFhevmInstance();
+  const { handles, inputProof } = await instance
+    .createEncryptedInput(contractAddress, userAddress)
+    .add32(features.categoryIndex)
+    .add32(features.sentiment)
+    .add32(features.articleId)
+    .encrypt();
+
+  return {
+    handles: handles.map(h => ethers.hexlify(h)),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+export interface ReadingHistory {
+  articleIds: number[];
+  categoryScores: number[];
+  sentimentScores: number[];
+}
+
+export interface EncryptedReadingHistory {
+  articleIds: string[];
+  categoryScores: string[];
+  sentimentScores: string[];
+  inputProof: string;
+}
+
+// Encrypts a whole history as one input so a single proof covers every handle
+export async function encryptReadingHistory(
+  contractAddress: string,
+  userAddress: string,
+  history: ReadingHistory
+): Promise<EncryptedReadingHistory> {
+  const instance = await getFhevmInstance();
+  const input = instance.createEncryptedInput(contractAddress, userAddress);
+  const values = [...history.articleIds, ...history.categoryScores, ...history.sentimentScores];
+  values.forEach(v => input.add32(v));
+  const { handles, inputProof } = await input.encrypt();
+
+  const hex = handles.map(h => ethers.hexlify(h));
+  const categoriesStart = history.articleIds.length;
+  const sentimentsStart = categoriesStart + history.categoryScores.length;
+  return {
+    articleIds: hex.slice(0, categoriesStart),
+    categoryScores: hex.slice(categoriesStart, sentimentsStart),
+    sentimentScores: hex.slice(sentimentsStart),
+    inputProof: ethers.hexlify(inputProof)
+  };
+}
+
+// Days an EIP-712 user-decryption authorisation stays valid
+const USER_DECRYPT_DURATION_DAYS = "1";
+
+// Decrypts handles in this browser only: the relayer re-encrypts them under a fresh keypair
+// that the wallet authorises with an EIP-712 signature, so nothing is revealed on-chain
+export async function userDecryptHandles(
+  handles: string[],
+  contractAddress: string,
+  signer: ethers.Signer
+): Promise<bigint[]> {
+  const instance = await getFhevmInstance();
+  const userAddress = await signer.getAddress();
+  const keypair = instance.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000).toString();
+
+  const eip712 = instance.createEIP712(
+    keypair.publicKey,
+    [contractAddress],
+    startTimestamp,
+    USER_DECRYPT_DURATION_DAYS
+  );
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const results = await instance.userDecrypt(
+    handles.map(handle => ({ handle, contractAddress })),
+    keypair.privateKey,
+    keypair.publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    userAddress,
+    startTimestamp,
+    USER_DECRYPT_DURATION_DAYS
+  );
+  return handles.map(handle => BigInt(results[handle] as bigint | string));
+}
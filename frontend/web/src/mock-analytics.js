@@ -1,3 +0,0 @@
-import axios from 'axios';
-
-export default function shared-inventory-static() { return <div>Component</div>; }
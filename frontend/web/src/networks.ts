@@ -0,0 +1,47 @@
+// networks.ts
+import { activeChainId } from "./deployments";
+
+export type NetworkKey = "sepolia" | "local";
+
+export interface NetworkProfile {
+  key: NetworkKey;
+  chainId: number;
+  chainName: string;
+  rpcUrls: string[];
+  blockExplorerUrls: string[];
+  nativeCurrency: { name: string; symbol: string; decimals: number };
+}
+
+export const NETWORKS: Record<NetworkKey, NetworkProfile> = {
+  sepolia: {
+    key: "sepolia",
+    chainId: 11155111,
+    chainName: "Sepolia",
+    rpcUrls: [
+      "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
+      "https://rpc.sepolia.org",
+      "https://rpc2.sepolia.org",
+      "https://eth-sepolia.public.blastapi.io"
+    ],
+    blockExplorerUrls: ["https://sepolia.etherscan.io/"],
+    nativeCurrency: { name: "Sepolia Ether", symbol: "SEP", decimals: 18 }
+  },
+  // `npx hardhat node` with @fhevm/hardhat-plugin, which also serves the mock relayer
+  local: {
+    key: "local",
+    chainId: 31337,
+    chainName: "Hardhat Local",
+    rpcUrls: ["http://127.0.0.1:8545"],
+    blockExplorerUrls: [],
+    nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 }
+  }
+};
+
+// Follows the deployment selected for the connected chain
+export function activeNetwork(): NetworkProfile {
+  return activeChainId() === NETWORKS.local.chainId ? NETWORKS.local : NETWORKS.sepolia;
+}
+
+export const isLocalNetwork = () => activeNetwork().key === "local";
+
+export const chainIdHex = (network: NetworkProfile) => `0x${network.chainId.toString(16)}`;
@@ -0,0 +1,191 @@
+// outlets.ts
+import outletsJson from "./data/outlets.json";
+
+export interface Outlet {
+  // Stored with each record, so it never changes once published
+  id: string;
+  name: string;
+  aliases: string[];
+  domains: string[];
+  // ISO 3166-1 alpha-2
+  country: string;
+  // ISO 639-1
+  language: string;
+  // Parent media group, null when independent or unknown
+  group: string | null;
+}
+
+export interface OutletRegistry {
+  version: string;
+  outlets: Outlet[];
+  byId: Map<string, Outlet>;
+  // Normalised names and aliases
+  byName: Map<string, Outlet>;
+  byDomain: Map<string, Outlet>;
+}
+
+export interface OutletMatch {
+  outlet: Outlet;
+  // 1 for an exact name, alias or domain, lower for looser matches
+  score: number;
+  // The name, alias or domain that matched
+  matched: string;
+}
+
+// Loosest match resolveOutlet accepts for free text, e.g. "New Yrok Times"
+export const FUZZY_MATCH_THRESHOLD = 0.8;
+const SUGGESTION_THRESHOLD = 0.5;
+
+// "The New York Times", "new-york times" and "New York Times" all normalise to "new york times"
+export function normalizeSourceName(source: string): string {
+  return source
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim()
+    .replace(/^the /, "");
+}
+
+// The host of a URL or bare domain without "www.", or null for anything that is not one
+export function sourceDomain(source: string): string | null {
+  const trimmed = source.trim().toLowerCase();
+  const hasScheme = /^[a-z][a-z0-9+.-]*:\/\//.test(trimmed);
+  if (!hasScheme && !/^[a-z0-9-]+(\.[a-z0-9-]+)*\.[a-z]{2,}(\/|$)/.test(trimmed)) return null;
+  try {
+    return new URL(hasScheme ? trimmed : `https://${trimmed}`).hostname.replace(/^www\./, "");
+  } catch {
+    return null;
+  }
+}
+
+const isText = (value: unknown): value is string => typeof value === "string" && value.trim() !== "";
+const isTextList = (value: unknown): value is string[] => Array.isArray(value) && value.every(isText);
+
+export function loadOutletRegistry(json: unknown): OutletRegistry {
+  const data = json as { version?: unknown; outlets?: unknown };
+  if (!isText(data?.version) || !Array.isArray(data.outlets)) {
+    throw new Error("The outlet registry needs a version and a list of outlets");
+  }
+
+  const registry: OutletRegistry = {
+    version: data.version,
+    outlets: [],
+    byId: new Map(),
+    byName: new Map(),
+    byDomain: new Map()
+  };
+  const claim = (map: Map<string, Outlet>, key: string, outlet: Outlet) => {
+    const existing = map.get(key);
+    if (existing && existing !== outlet) {
+      throw new Error(`Outlets ${existing.id} and ${outlet.id} both claim "${key}"`);
+    }
+    map.set(key, outlet);
+  };
+
+  data.outlets.forEach((raw: any, i: number) => {
+    if (!isText(raw?.id) || !isText(raw.name) || !isTextList(raw.aliases) || !isTextList(raw.domains)) {
+      throw new Error(`Outlet ${i} needs an id, a name, aliases and domains`);
+    }
+    if (!isText(raw.country) || !isText(raw.language) || !(raw.group === null || isText(raw.group))) {
+      throw new Error(`Outlet ${raw.id} needs a country, a language and a group (or null)`);
+    }
+    const outlet: Outlet = {
+      id: raw.id,
+      name: raw.name,
+      aliases: raw.aliases,
+      domains: raw.domains.map((d: string) => d.toLowerCase()),
+      country: raw.country,
+      language: raw.language,
+      group: raw.group
+    };
+
+    claim(registry.byId, outlet.id, outlet);
+    [outlet.name, ...outlet.aliases].forEach(name => claim(registry.byName, normalizeSourceName(name), outlet));
+    outlet.domains.forEach(domain => claim(registry.byDomain, domain, outlet));
+    registry.outlets.push(outlet);
+  });
+  return registry;
+}
+
+export const OUTLETS = loadOutletRegistry(outletsJson);
+
+export const outletById = (id: string | null | undefined, registry = OUTLETS): Outlet | null =>
+  (id && registry.byId.get(id)) || null;
+
+// Subdomains fall back to their parent: "edition.cnn.com" is "cnn.com"
+function findByDomain(registry: OutletRegistry, domain: string): Outlet | null {
+  const labels = domain.split(".");
+  for (let i = 0; i < labels.length - 1; i++) {
+    const outlet = registry.byDomain.get(labels.slice(i).join("."));
+    if (outlet) return outlet;
+  }
+  return null;
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// How well a normalised query matches a normalised name: prefixes rank above substrings, then typos
+function similarity(query: string, name: string): number {
+  if (query === name) return 1;
+  if (name.startsWith(query)) return 0.9;
+  if (name.split(" ").some(word => word.startsWith(query))) return 0.8;
+  if (name.includes(query)) return 0.7;
+  return 1 - editDistance(query, name) / Math.max(query.length, name.length);
+}
+
+// Best matches first, at most one per outlet; for autocomplete as the user types
+export function matchOutlets(query: string, limit = 6, registry = OUTLETS): OutletMatch[] {
+  const normalized = normalizeSourceName(query);
+  if (!normalized) return [];
+
+  const domain = sourceDomain(query);
+  const byDomain = domain ? findByDomain(registry, domain) : null;
+  if (byDomain) return [{ outlet: byDomain, score: 1, matched: domain! }];
+
+  const best = new Map<string, OutletMatch>();
+  for (const outlet of registry.outlets) {
+    const names = [outlet.name, ...outlet.aliases, ...outlet.domains];
+    for (const name of names) {
+      const score = similarity(normalized, normalizeSourceName(name));
+      if (score >= SUGGESTION_THRESHOLD && score > (best.get(outlet.id)?.score ?? 0)) {
+        best.set(outlet.id, { outlet, score, matched: name });
+      }
+    }
+  }
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score || a.outlet.name.localeCompare(b.outlet.name))
+    .slice(0, limit);
+}
+
+// The canonical outlet for free text: a URL or domain, a name or alias, or a close enough misspelling of one
+export function resolveOutlet(source: string, registry = OUTLETS): Outlet | null {
+  const domain = sourceDomain(source);
+  if (domain) return findByDomain(registry, domain);
+
+  const normalized = normalizeSourceName(source);
+  const exact = registry.byName.get(normalized);
+  if (exact || !normalized) return exact ?? null;
+
+  // Only a near spelling counts: a prefix such as "new" would otherwise resolve to whichever outlet ranks first
+  let best: Outlet | null = null;
+  let bestScore = FUZZY_MATCH_THRESHOLD;
+  for (const [name, outlet] of registry.byName) {
+    const score = 1 - editDistance(normalized, name) / Math.max(normalized.length, name.length);
+    if (score >= bestScore) {
+      best = outlet;
+      bestScore = score;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,64 @@
+// readingHistory.ts
+import type { NewsBubble } from "./bubbleRepository";
+import { ArticleFeatures, ReadingHistory } from "./fhe";
+
+const STORAGE_PREFIX = "bubble-features";
+
+// Plaintext features never leave this browser; only their encryptions are submitted
+export interface StoredFeatures {
+  articleId: number;
+  sentiment: number;
+  // Index into the category registry. The category is never stored on-chain in plaintext, so this is the only
+  // record of it; entries saved before it was kept here have none
+  categoryIndex?: number;
+}
+
+const storageKey = (owner: string) => `${STORAGE_PREFIX}:${owner.toLowerCase()}`;
+
+export function loadArticleFeatures(owner: string): Record<string, StoredFeatures> {
+  try {
+    return JSON.parse(localStorage.getItem(storageKey(owner)) || "{}");
+  } catch {
+    return {};
+  }
+}
+
+export function saveArticleFeatures(owner: string, bubbleId: string, features: ArticleFeatures) {
+  const all = loadArticleFeatures(owner);
+  all[bubbleId] = { articleId: features.articleId, sentiment: features.sentiment, categoryIndex: features.categoryIndex };
+  localStorage.setItem(storageKey(owner), JSON.stringify(all));
+}
+
+// The registry name of the bubble's category, known only in the browser that stored it
+export function categoryOf(
+  bubble: NewsBubble,
+  categories: string[],
+  features: Record<string, StoredFeatures>
+): string | null {
+  const i = features[bubble.id]?.categoryIndex;
+  return i === undefined ? null : categories[i] ?? null;
+}
+
+// Aggregates bubbles into the per-category layout BubbleAnalytics expects.
+// Bubbles whose features were not stored in this browser have no known category and are left out.
+export function buildReadingHistory(
+  bubbles: NewsBubble[],
+  categories: string[],
+  features: Record<string, StoredFeatures>
+): ReadingHistory {
+  const categoryScores = categories.map(() => 0);
+  const sentimentScores = categories.map(() => 0);
+  const articleIds: number[] = [];
+
+  for (const bubble of bubbles) {
+    const stored = features[bubble.id];
+    const i = stored?.categoryIndex;
+    if (i === undefined || i < 0 || i >= categories.length) continue;
+
+    articleIds.push(stored.articleId);
+    categoryScores[i] += 1;
+    sentimentScores[i] += stored.sentiment;
+  }
+
+  return { articleIds, categoryScores, sentimentScores };
+}
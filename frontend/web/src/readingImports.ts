@@ -0,0 +1,240 @@
+// readingImports.ts
+// Reading history exports are parsed in this browser only. What leaves it is what an article added by hand
+// would send: the outlet and its rating, and the encrypted features; never a URL or a page title.
+import { PendingArticle, canonicalUrl, parseArticleLink, pendingArticle, slugTitle } from "./articleLinks";
+
+export type ImportFormat = "browser-history" | "read-later" | "opml";
+
+export interface ImportedEntry {
+  url: string;
+  title: string | null;
+  // Milliseconds since the epoch, null when the export records no time
+  readAt: number | null;
+  // The feed of a subscription, which keys it since one site can offer several feeds
+  feed: string | null;
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  // Newest first, at most MAX_IMPORTED_ARTICLES
+  articles: PendingArticle[];
+  // Entries in the file, before any were dropped
+  found: number;
+  // Repeats within the file, and articles already queued or stored
+  duplicates: number;
+  // Sites the outlet registry does not know, and outlet pages that are not articles
+  skipped: number;
+  // The oldest articles over MAX_IMPORTED_ARTICLES
+  truncated: number;
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImportFormatError";
+  }
+}
+
+// Every article is two transactions to confirm, its public record and its encrypted append, so a batch is kept to
+// a size someone will review
+export const MAX_IMPORTED_ARTICLES = 100;
+
+const isText = (value: unknown): value is string => typeof value === "string" && value.trim() !== "";
+
+// Chrome Takeout (time_usec), the extension history API (lastVisitTime, ms) and Firefox backups (lastModified, µs)
+function entryTime(raw: Record<string, unknown>): number | null {
+  const number = (value: unknown) => (typeof value === "number" || isText(value) ? Number(value) : NaN);
+  const micros = number(raw.time_usec ?? raw.lastModified ?? raw.dateAdded);
+  if (Number.isFinite(micros)) return Math.floor(micros / 1000);
+  const millis = number(raw.lastVisitTime ?? raw.visitTime);
+  return Number.isFinite(millis) ? millis : null;
+}
+
+// Any object with a url (Chrome) or uri (Firefox) at any depth, so the exports' wrappers need no special casing
+export function parseBrowserHistory(text: string): ImportedEntry[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new ImportFormatError("The history export is not valid JSON");
+  }
+
+  const entries: ImportedEntry[] = [];
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === "object") {
+      const raw = value as Record<string, unknown>;
+      const url = raw.url ?? raw.uri;
+      if (isText(url)) {
+        entries.push({ url, title: isText(raw.title) ? raw.title : null, readAt: entryTime(raw), feed: null });
+      }
+      Object.values(raw).forEach(visit);
+    }
+  };
+  visit(json);
+  return entries;
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"') {
+      quoted = true;
+    } else if (c === ",") {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length > 0) rows.push([...row, field]);
+  return rows.filter(r => r.some(f => f.trim() !== ""));
+}
+
+// Pocket (title,url,time_added,...) and Instapaper (URL,Title,Selection,Folder,Timestamp); times are in seconds
+export function parseReadLaterCsv(text: string): ImportedEntry[] {
+  const [header, ...rows] = parseCsv(text);
+  const column = (pattern: RegExp) => (header ?? []).findIndex(name => pattern.test(name.trim()));
+  const url = column(/^url$/i);
+  const title = column(/^title$/i);
+  const time = column(/^(time_added|timestamp)$/i);
+  if (url < 0) {
+    throw new ImportFormatError("The CSV export has no URL column");
+  }
+
+  return rows
+    .filter(row => isText(row[url]))
+    .map(row => {
+      const seconds = time >= 0 ? Number(row[time]) : NaN;
+      return {
+        url: row[url].trim(),
+        title: title >= 0 && isText(row[title]) ? row[title] : null,
+        readAt: Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null,
+        feed: null
+      };
+    });
+}
+
+// A numeric entity past the last code point is left as written rather than failing the whole list
+const decodeEntities = (value: string) =>
+  value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (text, entity: string) => {
+    const named: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'" };
+    if (entity[0] !== "#") return named[entity.toLowerCase()];
+    const codePoint = entity[1].toLowerCase() === "x" ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+    return codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : text;
+  });
+
+function outlineAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const [, name, , doubleQuoted, singleQuoted] of tag.matchAll(/([\w:-]+)\s*=\s*("([^"]*)"|'([^']*)')/g)) {
+    attributes[name.toLowerCase()] = decodeEntities(doubleQuoted ?? singleQuoted);
+  }
+  return attributes;
+}
+
+// One entry per feed, at its site (htmlUrl) where the list has one. A subscription has no headline, so its title
+// is the folders it is filed in and its name: a feed filed under "Politics" says as much as a headline would.
+export function parseOpml(text: string): ImportedEntry[] {
+  if (!/<opml[\s>]/i.test(text)) {
+    throw new ImportFormatError("The subscription list is not an OPML file");
+  }
+
+  const entries: ImportedEntry[] = [];
+  const folders: string[] = [];
+  for (const [, closing, body, selfClosing] of text.matchAll(/<(\/?)outline\b([^>]*?)(\/?)>/gi)) {
+    if (closing) {
+      folders.pop();
+      continue;
+    }
+    const attributes = outlineAttributes(body);
+    const url = attributes.htmlurl || attributes.xmlurl;
+    const name = attributes.title || attributes.text || "";
+    if (isText(url)) {
+      const title = [...folders, name].filter(isText).join(" / ");
+      entries.push({ url, title: title || null, readAt: null, feed: attributes.xmlurl || null });
+    }
+    // Feeds rarely nest, but an open one must still balance its closing tag
+    if (!selfClosing) folders.push(isText(url) ? "" : name);
+  }
+  return entries;
+}
+
+export function detectImportFormat(text: string): ImportFormat {
+  const start = text.trimStart();
+  if (start.startsWith("<")) return "opml";
+  if (start.startsWith("{") || start.startsWith("[")) return "browser-history";
+  return "read-later";
+}
+
+const PARSERS: Record<ImportFormat, (text: string) => ImportedEntry[]> = {
+  "browser-history": parseBrowserHistory,
+  "read-later": parseReadLaterCsv,
+  opml: parseOpml
+};
+
+// Maps an export to articles ready for review. Only known outlets are kept, so a browser history cannot queue
+// every site its owner visited; history entries also need an article path, not an outlet's front page.
+export function previewImport(
+  text: string,
+  categories: string[],
+  isDuplicate: (article: PendingArticle) => boolean = () => false
+): ImportPreview {
+  // Excel and some exporters start the file with a byte order mark
+  const body = text.replace(/^\uFEFF/, "");
+  const format = detectImportFormat(body);
+  const entries = PARSERS[format](body).sort((a, b) => (b.readAt ?? 0) - (a.readAt ?? 0));
+
+  const seen = new Set<string>();
+  const articles: PendingArticle[] = [];
+  let duplicates = 0;
+  let skipped = 0;
+  for (const entry of entries) {
+    const link = parseArticleLink(entry.url, categories, entry.title);
+    if (!link?.outlet || (format === "browser-history" && !slugTitle(new URL(link.url)))) {
+      skipped++;
+      continue;
+    }
+
+    const article = pendingArticle(link);
+    if (entry.feed) {
+      article.key = canonicalUrl(entry.feed) ?? article.key;
+      article.content = `Subscribed to ${entry.title ?? link.source}`;
+    }
+    if (seen.has(article.key) || isDuplicate(article)) {
+      duplicates++;
+      continue;
+    }
+    seen.add(article.key);
+    articles.push(article);
+  }
+
+  return {
+    format,
+    articles: articles.slice(0, MAX_IMPORTED_ARTICLES),
+    found: entries.length,
+    duplicates,
+    skipped,
+    truncated: Math.max(articles.length - MAX_IMPORTED_ARTICLES, 0)
+  };
+}
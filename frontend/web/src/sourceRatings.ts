@@ -0,0 +1,76 @@
+// sourceRatings.ts
+import ratingsJson from "./data/sourceRatings.json";
+import { OUTLETS, Outlet, OutletRegistry, outletById, resolveOutlet } from "./outlets";
+
+export interface OutletRating {
+  outletId: string;
+  // -100 (left) to 100 (right)
+  lean: number;
+  // 0 (unreliable) to 100 (highly reliable)
+  reliability: number;
+}
+
+export interface SourceRatings {
+  version: string;
+  byOutlet: Map<string, OutletRating>;
+}
+
+export interface SourceRating {
+  // Null for a source the registry does not know
+  outlet: Outlet | null;
+  // Null for an outlet the dataset does not rate
+  rating: OutletRating | null;
+  // Strength of the lean whichever way it goes, 0 to 100; what the bubble badges show
+  biasScore: number;
+  ratingVersion: string;
+}
+
+// Unrated sources sit in the middle of the scale rather than looking neutral
+export const UNKNOWN_BIAS_SCORE = 50;
+
+const isRating = (value: number, min: number) => Number.isFinite(value) && value >= min && value <= 100;
+
+// Ratings are keyed by outlet id, so each must name an outlet in the registry
+export function loadSourceRatings(json: unknown, registry: OutletRegistry = OUTLETS): SourceRatings {
+  const data = json as { version?: unknown; ratings?: unknown };
+  if (typeof data?.version !== "string" || !Array.isArray(data.ratings)) {
+    throw new Error("Source ratings need a version and a list of ratings");
+  }
+
+  const byOutlet = new Map<string, OutletRating>();
+  data.ratings.forEach((raw: any, i: number) => {
+    if (typeof raw?.outlet !== "string" || !registry.byId.has(raw.outlet)) {
+      throw new Error(`Source rating ${i} names no outlet in the registry`);
+    }
+    if (!isRating(raw.lean, -100) || !isRating(raw.reliability, 0)) {
+      throw new Error(`Source rating for ${raw.outlet} has a lean or reliability out of range`);
+    }
+    byOutlet.set(raw.outlet, { outletId: raw.outlet, lean: raw.lean, reliability: raw.reliability });
+  });
+  return { version: data.version, byOutlet };
+}
+
+export const SOURCE_RATINGS = loadSourceRatings(ratingsJson);
+
+export function rateOutlet(outlet: Outlet | null, ratings = SOURCE_RATINGS): SourceRating {
+  const rating = (outlet && ratings.byOutlet.get(outlet.id)) || null;
+  return {
+    outlet,
+    rating,
+    biasScore: rating ? Math.abs(rating.lean) : UNKNOWN_BIAS_SCORE,
+    ratingVersion: ratings.version
+  };
+}
+
+export const rateSource = (source: string, ratings = SOURCE_RATINGS): SourceRating =>
+  rateOutlet(resolveOutlet(source), ratings);
+
+// Records rated with an older dataset, or before ratings existed, are rescored against the current one
+export function rateBubble(
+  bubble: { source: string; outletId: string | null; biasScore: number; ratingVersion: string | null },
+  ratings = SOURCE_RATINGS
+): SourceRating {
+  // Records from before the outlet registry only have the raw text
+  const current = rateOutlet(outletById(bubble.outletId) ?? resolveOutlet(bubble.source), ratings);
+  return bubble.ratingVersion === ratings.version ? { ...current, biasScore: bubble.biasScore } : current;
+}
@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\frontend\web\src\util-adapter\spec-shared.java
-// Generated at: 2025-10-10T11:17:43.675Z
\ No newline at end of file
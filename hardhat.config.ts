@@ -2,6 +2,10 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@nomicfoundation/hardhat-ethers";
 import "@fhevm/hardhat-plugin";
+import "dotenv/config";
+
+import "./tasks/BubbleAnalytics";
+import "./tasks/deployment";
 
 const config: HardhatUserConfig = {
   defaultNetwork: "hardhat",
@@ -9,10 +13,16 @@ const config: HardhatUserConfig = {
     hardhat: {
       chainId: 31337,
     },
+    // `npm run node` serves this chain with the fhevm mock; the frontend's "local" network targets it
+    localhost: {
+      chainId: 31337,
+      url: "http://127.0.0.1:8545",
+    },
     sepolia: {
       chainId: 11155111,
-      url: "https://sepolia.drpc.org",
-      accounts: [],
+      url: process.env.RPC_URL ?? "https://sepolia.drpc.org",
+      // Lets tasks such as deployment:verify send from the deployer; deploy/deploy.ts reads the key itself
+      accounts: process.env.DEPLOYER_PRIVATE_KEY ? [process.env.DEPLOYER_PRIVATE_KEY] : [],
     },
   },
   solidity: {
@@ -41,7 +51,7 @@ const config: HardhatUserConfig = {
   },
   etherscan: {
     apiKey: {
-      sepolia: "",
+      sepolia: process.env.ETHERSCAN_API_KEY ?? "",
     },
   },
   gasReporter: {
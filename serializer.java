@@ -1,2 +0,0 @@
-// Auto-generated file: D:\MyCode\zama\demo\serializer.java
-// Generated at: 2025-10-10T11:17:43.658Z
\ No newline at end of file
@@ -0,0 +1,532 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import fs from "fs";
+
+import { readManifest } from "../deploy/manifest";
+import type { BubbleAnalytics } from "../types";
+
+/**
+ * Tutorial: drive BubbleAnalytics end to end (localhost)
+ * ======================================================
+ *
+ * 1. From a separate terminal window:
+ *
+ *   npx hardhat node
+ *
+ * 2. Deploy the contracts, recording them in the deployment manifest
+ *
+ *   npm run deploy:localhost
+ *
+ * 3. Submit a reading history and request its analysis (signer #0 by default)
+ *
+ *   npx hardhat --network localhost bubble:categories
+ *   npx hardhat --network localhost bubble:submit --articles 101,102,103 --categories 2,1,0,0,0 --sentiments 140,60,0,0,0
+ *   npx hardhat --network localhost bubble:append --article 104 --category 1 --sentiment 70
+ *   npx hardhat --network localhost bubble:analyze
+ *
+ * 4. As the admin (the deployer), make signer #1 an analyzer; it then stores the results for that user,
+ *    which the user decrypts
+ *
+ *   npx hardhat --network localhost bubble:set-analyzer --account 0x7099...
+ *   npx hardhat --network localhost bubble:store-results --signer 1 --user 0xf39F... --file results.json
+ *   npx hardhat --network localhost bubble:reveal
+ *   npx hardhat --network localhost bubble:show
+ *
+ *    Or calculate the result on-chain from the encrypted history, without an analyzer
+ *
+ *   npx hardhat --network localhost bubble:calculate
+ *
+ * 5. Or publish the result through the decryption oracle, and watch the request until it is answered
+ *
+ *   npx hardhat --network localhost bubble:reveal --oracle
+ *   npx hardhat --network localhost bubble:decryptions --watch
+ *
+ * 6. As the admin, add a category; histories recorded before it are padded with zeros for it
+ *
+ *   npx hardhat --network localhost bubble:add-category --name Science
+ *   npx hardhat --network localhost bubble:migrate
+ *
+ * History files hold { articleIds, categoryScores, sentimentScores } and result files hold
+ * { diversityScore, biasVector, recommendedArticles }; either may also set "user". Flags win over the file.
+ */
+
+const UINT32_MAX = 2 ** 32 - 1;
+
+type Values = Record<string, unknown>;
+
+function readJsonFile(file: string | undefined): Values {
+  if (!file) return {};
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf8"));
+  } catch (e) {
+    throw new Error(`Cannot read JSON file ${file}: ${(e as Error).message}`);
+  }
+}
+
+function toUint32(name: string, value: unknown): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0 || n > UINT32_MAX) {
+    throw new Error(`${name} must be a uint32, got ${JSON.stringify(value)}`);
+  }
+  return n;
+}
+
+// Accepts "1,2,3" from a flag or [1, 2, 3] from a JSON file
+function toUint32List(name: string, value: unknown): number[] {
+  if (value === undefined || value === "") throw new Error(`Missing ${name}`);
+  const items = Array.isArray(value) ? value : String(value).split(",").map((v) => v.trim());
+  return items.map((v, i) => toUint32(`${name}[${i}]`, v));
+}
+
+async function resolveContract(hre: HardhatRuntimeEnvironment, taskArguments: TaskArguments) {
+  let address: string | undefined = taskArguments.address;
+  if (!address) {
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    address = readManifest()[chainId.toString()]?.contracts.BubbleAnalytics?.address;
+  }
+  if (!address) {
+    throw new Error(`No BubbleAnalytics deployment for network "${hre.network.name}": pass --address or deploy first`);
+  }
+
+  const signers = await hre.ethers.getSigners();
+  const signer = signers[taskArguments.signer];
+  if (!signer) throw new Error(`No signer at index ${taskArguments.signer}`);
+
+  const contract = await hre.ethers.getContractAt("BubbleAnalytics", address, signer);
+  return { contract, address, signer };
+}
+
+// A wallet's analytics record is keyed by its address read as a uint256, as in the frontend
+function resolveUserId(user: unknown, fallback: string): bigint {
+  const value = user === undefined || user === "" ? fallback : String(user);
+  return BigInt(value);
+}
+
+function withCommonParams(name: string, description: string) {
+  return task(name, description)
+    .addOptionalParam("address", "BubbleAnalytics address, defaults to the deployment manifest entry")
+    .addOptionalParam("signer", "Index of the signer to send from", 0, types.int);
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:categories
+ *   - npx hardhat --network sepolia bubble:categories
+ */
+withCommonParams("bubble:categories", "Lists BubbleAnalytics categories in index order").setAction(async function (
+  taskArguments: TaskArguments,
+  hre,
+) {
+  const { contract, address } = await resolveContract(hre, taskArguments);
+  const categories = await contract.getCategories();
+
+  console.log(`BubbleAnalytics: ${address} (categories version ${await contract.categoriesVersion()})`);
+  categories.forEach((category: string, i: number) => console.log(`  [${i}] ${category}`));
+});
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:add-category --name Science
+ */
+withCommonParams("bubble:add-category", "Adds a category at the next index; the signer must be the admin")
+  .addParam("name", "Category name")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await resolveContract(hre, taskArguments);
+
+    const tx = await contract.addCategory(taskArguments.name);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Added ${taskArguments.name}; existing histories need bubble:migrate (or are migrated on analysis)`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:migrate
+ *   - npx hardhat --network localhost bubble:migrate --users 0xf39F...,0x7099...
+ */
+withCommonParams("bubble:migrate", "Pads histories recorded before categories were added")
+  .addOptionalParam("users", "Comma-separated user ids or wallet addresses, defaults to the signer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract, signer } = await resolveContract(hre, taskArguments);
+    const users: string[] = taskArguments.users ? String(taskArguments.users).split(",").map((u) => u.trim()) : [];
+    const userIds = users.length > 0 ? users.map((u) => resolveUserId(u, signer.address)) : [BigInt(signer.address)];
+
+    const stale = [];
+    for (const userId of userIds) {
+      if (!(await contract.isHistoryCurrent(userId))) stale.push(userId);
+    }
+    if (stale.length === 0) {
+      console.log("Every history already covers the current categories");
+      return;
+    }
+
+    const tx = await contract.migrateHistories(stale);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Migrated ${stale.length} history(ies) to categories version ${await contract.categoriesVersion()}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:submit --articles 101,102 --categories 1,1,0,0,0 --sentiments 60,40,0,0,0
+ *   - npx hardhat --network localhost bubble:submit --file history.json
+ */
+withCommonParams("bubble:submit", "Encrypts and submits a reading history")
+  .addOptionalParam("user", "User id or wallet address, defaults to the signer")
+  .addOptionalParam("file", "JSON file with articleIds, categoryScores and sentimentScores")
+  .addOptionalParam("articles", "Comma-separated article ids")
+  .addOptionalParam("categories", "Comma-separated read counts, one per category")
+  .addOptionalParam("sentiments", "Comma-separated sentiment sums, one per category")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const { contract, address, signer } = await resolveContract(hre, taskArguments);
+    const file = readJsonFile(taskArguments.file);
+    const userId = resolveUserId(taskArguments.user ?? file.user, signer.address);
+    const articleIds = toUint32List("articleIds", taskArguments.articles ?? file.articleIds);
+    const categoryScores = toUint32List("categoryScores", taskArguments.categories ?? file.categoryScores);
+    const sentimentScores = toUint32List("sentimentScores", taskArguments.sentiments ?? file.sentimentScores);
+
+    const categories = await contract.getCategories();
+    if (categoryScores.length !== categories.length || sentimentScores.length !== categories.length) {
+      throw new Error(`Scores must have one entry per category (${categories.length}: ${categories.join(", ")})`);
+    }
+
+    // One input for the whole history, so a single proof covers every handle
+    const input = fhevm.createEncryptedInput(address, signer.address);
+    [...articleIds, ...categoryScores, ...sentimentScores].forEach((v) => input.add32(v));
+    const encrypted = await input.encrypt();
+    const categoriesStart = articleIds.length;
+    const sentimentsStart = categoriesStart + categoryScores.length;
+
+    const tx = await contract.submitReadingHistory(
+      userId,
+      encrypted.handles.slice(0, categoriesStart),
+      encrypted.handles.slice(categoriesStart, sentimentsStart),
+      encrypted.handles.slice(sentimentsStart),
+      encrypted.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Submitted ${articleIds.length} articles for user ${userId}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:append --article 104 --category 1 --sentiment 70
+ */
+withCommonParams("bubble:append", "Encrypts one article and adds it to a reading history")
+  .addOptionalParam("user", "User id or wallet address, defaults to the signer")
+  .addParam("article", "Article id")
+  .addParam("category", "Category index, see bubble:categories")
+  .addParam("sentiment", "Sentiment score")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const { contract, address, signer } = await resolveContract(hre, taskArguments);
+    const userId = resolveUserId(taskArguments.user, signer.address);
+    const articleId = toUint32("article", taskArguments.article);
+    const category = toUint32("category", taskArguments.category);
+    const sentiment = toUint32("sentiment", taskArguments.sentiment);
+
+    const categories = await contract.getCategories();
+    if (category >= categories.length) {
+      throw new Error(`Category must be below ${categories.length} (${categories.join(", ")})`);
+    }
+
+    // Same order as appendArticle's parameters
+    const input = fhevm.createEncryptedInput(address, signer.address);
+    input.add32(category).add32(sentiment).add32(articleId);
+    const encrypted = await input.encrypt();
+
+    const tx = await contract.appendArticle(
+      userId,
+      encrypted.handles[0],
+      encrypted.handles[1],
+      encrypted.handles[2],
+      encrypted.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Appended article ${articleId} (${categories[category]}) for user ${userId}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:analyze
+ */
+withCommonParams("bubble:analyze", "Requests the analysis of a submitted reading history")
+  .addOptionalParam("user", "User id or wallet address, defaults to the signer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract, signer } = await resolveContract(hre, taskArguments);
+    const userId = resolveUserId(taskArguments.user, signer.address);
+
+    const tx = await contract.requestAnalysis(userId);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Analysis requested for user ${userId}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:calculate
+ */
+withCommonParams("bubble:calculate", "Calculates the analysis on-chain, one transaction per step, instead of an analyzer")
+  .addOptionalParam("user", "User id or wallet address, defaults to the signer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract, signer } = await resolveContract(hre, taskArguments);
+    const userId = resolveUserId(taskArguments.user, signer.address);
+
+    const categoryCount = (await contract.getCategories()).length;
+
+    // The first step starts a fresh calculation, so a completed result is recalculated rather than kept
+    let complete = false;
+    while (!complete) {
+      const tx = await contract.calculateAnalysis(userId);
+      console.log(`Wait for tx:${tx.hash}...`);
+      const receipt = await tx.wait();
+      console.log(`tx:${tx.hash} status=${receipt?.status}`);
+
+      complete = (await contract.analysisResults(userId)).isComplete;
+      const { nextCategory } = await contract.analysisCalculations(userId);
+      console.log(`Bias calculated for ${complete ? categoryCount : nextCategory} of ${categoryCount} categories`);
+    }
+    console.log(`Analysis calculated for user ${userId}; decrypt it with bubble:reveal`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:set-analyzer --account 0x7099...
+ *   - npx hardhat --network localhost bubble:set-analyzer --account 0x7099... --revoke
+ */
+withCommonParams("bubble:set-analyzer", "Grants or revokes the analyzer role; the signer must be the admin")
+  .addParam("account", "Address to grant the role to")
+  .addFlag("revoke", "Revoke the role instead")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract } = await resolveContract(hre, taskArguments);
+    const enabled = !taskArguments.revoke;
+
+    const tx = await contract.setAnalyzer(taskArguments.account, enabled);
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`${enabled ? "Granted" : "Revoked"} the analyzer role for ${taskArguments.account}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:store-results --user 0xf39F... --diversity 44 --bias 70,60,50,50,50 --recommendations 2001,2002,2003
+ *   - npx hardhat --network localhost bubble:store-results --file results.json
+ */
+withCommonParams("bubble:store-results", "Encrypts and stores analysis results for a user")
+  .addOptionalParam("user", "User id or wallet address, defaults to the signer")
+  .addOptionalParam("file", "JSON file with diversityScore, biasVector and recommendedArticles")
+  .addOptionalParam("diversity", "Diversity score")
+  .addOptionalParam("bias", "Comma-separated bias scores, one per category")
+  .addOptionalParam("recommendations", "Comma-separated recommended article ids")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const { contract, address, signer } = await resolveContract(hre, taskArguments);
+    const file = readJsonFile(taskArguments.file);
+    const userId = resolveUserId(taskArguments.user ?? file.user, signer.address);
+    const diversityScore = toUint32("diversityScore", taskArguments.diversity ?? file.diversityScore);
+    const biasVector = toUint32List("biasVector", taskArguments.bias ?? file.biasVector);
+    const recommendedArticles = toUint32List(
+      "recommendedArticles",
+      taskArguments.recommendations ?? file.recommendedArticles,
+    );
+
+    const input = fhevm.createEncryptedInput(address, signer.address);
+    [diversityScore, ...biasVector, ...recommendedArticles].forEach((v) => input.add32(v));
+    const encrypted = await input.encrypt();
+    const biasEnd = 1 + biasVector.length;
+
+    const tx = await contract.storeAnalysisResults(
+      userId,
+      encrypted.handles[0],
+      encrypted.handles.slice(1, biasEnd),
+      encrypted.handles.slice(biasEnd),
+      encrypted.inputProof,
+    );
+    console.log(`Wait for tx:${tx.hash}...`);
+    const receipt = await tx.wait();
+    console.log(`tx:${tx.hash} status=${receipt?.status}`);
+    console.log(`Stored analysis results for user ${userId}`);
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:reveal
+ *   - npx hardhat --network localhost bubble:reveal --oracle
+ */
+withCommonParams("bubble:reveal", "Decrypts a user's analysis result, privately unless --oracle is set")
+  .addOptionalParam("user", "User id or wallet address, defaults to the signer")
+  .addFlag("oracle", "Publish the result on-chain through the decryption oracle instead")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { fhevm } = hre;
+    await fhevm.initializeCLIApi();
+
+    const { contract, address, signer } = await resolveContract(hre, taskArguments);
+    const userId = resolveUserId(taskArguments.user, signer.address);
+
+    if (taskArguments.oracle) {
+      const tx = await contract.requestResultDecryption(userId);
+      console.log(`Wait for tx:${tx.hash}...`);
+      await tx.wait();
+      // The mock oracle only answers when asked; on a live network the callback arrives on its own
+      if (fhevm.isMock) await fhevm.awaitDecryptionOracle();
+
+      const [diversityScore, biasVector, recommendedArticles, isRevealed] =
+        await contract.getDecryptedAnalysisResult(userId);
+      if (!isRevealed) {
+        console.log("Decryption requested; follow it with bubble:decryptions --watch");
+        return;
+      }
+      printResult(userId, Number(diversityScore), biasVector.map(Number), recommendedArticles.map(Number));
+      return;
+    }
+
+    const tx = await contract.grantResultAccess(userId);
+    console.log(`Wait for tx:${tx.hash}...`);
+    await tx.wait();
+
+    const [diversityScore, biasVector, recommendedArticles] = await contract.getEncryptedAnalysisResult(userId);
+    const decrypt = async (handle: string) =>
+      Number(await fhevm.userDecryptEuint(FhevmType.euint32, handle, address, signer));
+
+    printResult(
+      userId,
+      await decrypt(diversityScore),
+      await Promise.all(biasVector.map(decrypt)),
+      await Promise.all(recommendedArticles.map(decrypt)),
+    );
+  });
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:show
+ *   - npx hardhat --network localhost bubble:show --user 0xf39F...
+ */
+withCommonParams("bubble:show", "Prints a user's submission and analysis status")
+  .addOptionalParam("user", "User id or wallet address, defaults to the signer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract, signer } = await resolveContract(hre, taskArguments);
+    const userId = resolveUserId(taskArguments.user, signer.address);
+
+    const [, timestamp] = await contract.userReadingHistory(userId);
+    if (timestamp === 0n) {
+      console.log(`User ${userId} has not submitted a reading history`);
+      return;
+    }
+    const [articleIds] = await contract.getEncryptedReadingHistory(userId);
+    console.log(`User ${userId}`);
+    console.log(`  Wallet         : ${await contract.userWallets(userId)}`);
+    console.log(`  Submitted      : ${new Date(Number(timestamp) * 1000).toISOString()}`);
+    console.log(`  Articles       : ${articleIds.length}`);
+
+    const [, isComplete] = await contract.analysisResults(userId);
+    console.log(`  Analysis       : ${isComplete ? "complete" : "pending"}`);
+    if (!isComplete) return;
+
+    const [diversityScore, biasVector, recommendedArticles, isRevealed] =
+      await contract.getDecryptedAnalysisResult(userId);
+    if (!isRevealed) {
+      console.log("  Result         : encrypted (use bubble:reveal to decrypt it)");
+      return;
+    }
+    printResult(userId, Number(diversityScore), biasVector.map(Number), recommendedArticles.map(Number));
+  });
+
+type DecryptionRequestStatus = "pending" | "fulfilled" | "expired" | "superseded";
+
+interface TrackedDecryptionRequest {
+  requestId: bigint;
+  requestedAt: number;
+  status: DecryptionRequestStatus;
+}
+
+// A request unanswered past the contract's timeout is stuck, unless another request revealed the result meanwhile
+// or the result was replaced since, which makes the contract ignore its answer
+async function listDecryptionRequests(
+  hre: HardhatRuntimeEnvironment,
+  contract: BubbleAnalytics,
+  userId: bigint,
+): Promise<TrackedDecryptionRequest[]> {
+  const [requestIds, timeout, revealed, resultVersion, block] = await Promise.all([
+    contract.getDecryptionRequests(userId),
+    contract.decryptionTimeout(),
+    contract.getDecryptedAnalysisResult(userId).then((r) => r.isRevealed),
+    contract.resultVersions(userId),
+    hre.ethers.provider.getBlock("latest"),
+  ]);
+  const now = BigInt(block?.timestamp ?? Math.floor(Date.now() / 1000));
+
+  return Promise.all(
+    requestIds.map(async (requestId) => {
+      const [, requestedAt, fulfilled, requestedVersion] = await contract.decryptionRequests(requestId);
+      let status: DecryptionRequestStatus = "pending";
+      if (fulfilled) status = "fulfilled";
+      else if (revealed || requestedVersion !== resultVersion) status = "superseded";
+      else if (now >= requestedAt + timeout) status = "expired";
+      return { requestId, requestedAt: Number(requestedAt), status };
+    }),
+  );
+}
+
+function printDecryptionRequests(userId: bigint, requests: TrackedDecryptionRequest[]) {
+  console.log(`Decryption requests for user ${userId}`);
+  if (requests.length === 0) console.log("  (none)");
+  for (const r of requests) {
+    console.log(`  #${r.requestId}  ${new Date(r.requestedAt * 1000).toISOString()}  ${r.status}`);
+  }
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost bubble:decryptions
+ *   - npx hardhat --network sepolia bubble:decryptions --watch --interval 30
+ */
+withCommonParams("bubble:decryptions", "Lists a user's oracle decryption requests and flags stuck ones")
+  .addOptionalParam("user", "User id or wallet address, defaults to the signer")
+  .addFlag("watch", "Keep polling until no request is pending")
+  .addOptionalParam("interval", "Seconds between polls with --watch", 15, types.int)
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const { contract, signer } = await resolveContract(hre, taskArguments);
+    const userId = resolveUserId(taskArguments.user, signer.address);
+    const reported = new Set<string>();
+
+    for (;;) {
+      const requests = await listDecryptionRequests(hre, contract, userId);
+      printDecryptionRequests(userId, requests);
+
+      // A new request is only useful when the latest one is stuck
+      const latest = requests[requests.length - 1];
+      if (latest?.status === "expired" && !reported.has(latest.requestId.toString())) {
+        reported.add(latest.requestId.toString());
+        console.warn(
+          `WARNING: request #${latest.requestId} timed out without an oracle callback; ` +
+            "run bubble:reveal --oracle to request decryption again",
+        );
+      }
+
+      if (!taskArguments.watch || !requests.some((r) => r.status === "pending")) return;
+      await new Promise((resolve) => setTimeout(resolve, taskArguments.interval * 1000));
+    }
+  });
+
+function printResult(userId: bigint, diversityScore: number, biasVector: number[], recommendedArticles: number[]) {
+  console.log(`Analysis result for user ${userId}`);
+  console.log(`  Diversity score: ${diversityScore}`);
+  console.log(`  Bias vector    : [${biasVector.join(", ")}]`);
+  console.log(`  Recommendations: [${recommendedArticles.join(", ")}]`);
+}
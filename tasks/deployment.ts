@@ -0,0 +1,204 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment, TaskArguments } from "hardhat/types";
+import { Contract, Signer, hexlify, toUtf8Bytes } from "ethers";
+import fs from "fs";
+import path from "path";
+
+import {
+  ContractDeployment,
+  FRONTEND_SRC_DIR,
+  LOCAL_CHAIN_ID,
+  REPORT_PATH,
+  readManifest,
+  relative,
+} from "../deploy/manifest";
+
+/**
+ * Checks that a recorded deployment actually works:
+ *
+ *   npm run deploy:localhost && npx hardhat --network localhost deployment:verify
+ *   ETHERSCAN_API_KEY=... npx hardhat --network sepolia deployment:verify
+ *
+ * Each contract in the manifest entry for the network's chain is checked for code, verified on the
+ * explorer (skipped on a local node or without ETHERSCAN_API_KEY) and exercised through a few calls.
+ * The outcome is written next to the manifest, to frontend/web/src/deployments.report.json, keyed by
+ * chain id like it.
+ */
+
+type CheckStatus = "pass" | "fail" | "skipped";
+
+interface CheckResult {
+  contract: string;
+  check: string;
+  status: CheckStatus;
+  detail: string;
+}
+
+interface ChainReport {
+  chainId: number;
+  network: string;
+  checkedAt: string;
+  passed: boolean;
+  checks: CheckResult[];
+}
+
+type Check = (contract: Contract, signer: Signer) => Promise<string>;
+
+// Calls that exercise each contract beyond having code; each returns a detail line or throws
+const SMOKE_TESTS: Record<string, Record<string, Check>> = {
+  UniversalAdapter: {
+    isAvailable: async (contract) => {
+      if (!(await contract.isAvailable())) throw new Error("isAvailable() returned false");
+      return "isAvailable() returned true";
+    },
+    "setData/getData": async (contract) => {
+      const key = `smoke-test:${Date.now()}`;
+      const value = hexlify(toUtf8Bytes(key));
+      await (await contract.setData(key, value)).wait();
+      const stored: string = await contract.getData(key);
+      if (stored !== value) throw new Error(`getData("${key}") returned ${stored}, expected ${value}`);
+      return `Round-tripped ${key}`;
+    },
+  },
+  BubbleAnalytics: {
+    categories: async (contract) => {
+      const categories: string[] = await contract.getCategories();
+      if (categories.length === 0) throw new Error("getCategories() returned no categories");
+      return categories.join(", ");
+    },
+  },
+};
+
+// The frontend ABI copies are written by the same deploy as the manifest, so they match what is on chain
+function readAbi(name: string) {
+  const file = path.join(FRONTEND_SRC_DIR, "abi", `${name}.json`);
+  if (!fs.existsSync(file)) throw new Error(`No ABI at ${relative(file)}`);
+  const json = JSON.parse(fs.readFileSync(file, "utf8"));
+  return Array.isArray(json) ? json : json.abi;
+}
+
+async function run(contract: string, check: string, fn: () => Promise<string>): Promise<CheckResult> {
+  try {
+    return { contract, check, status: "pass", detail: await fn() };
+  } catch (e) {
+    return { contract, check, status: "fail", detail: (e as Error).message };
+  }
+}
+
+const skipped = (contract: string, check: string, detail: string): CheckResult => ({
+  contract,
+  check,
+  status: "skipped",
+  detail,
+});
+
+async function verifyOnExplorer(hre: HardhatRuntimeEnvironment, deployment: ContractDeployment) {
+  try {
+    await hre.run("verify:verify", { address: deployment.address, constructorArguments: [] });
+    return `Verified ${deployment.address}`;
+  } catch (e) {
+    const message = (e as Error).message;
+    // A contract verified by an earlier run is as good as one verified now
+    if (/already verified/i.test(message)) return "Already verified";
+    throw e;
+  }
+}
+
+async function checkContract(
+  hre: HardhatRuntimeEnvironment,
+  name: string,
+  deployment: ContractDeployment,
+  signer: Signer,
+  explorer: true | string,
+): Promise<CheckResult[]> {
+  const results: CheckResult[] = [];
+
+  const code = await run(name, "code", async () => {
+    const bytecode = await hre.ethers.provider.getCode(deployment.address);
+    if (bytecode === "0x") throw new Error(`No code at ${deployment.address}`);
+    return `${(bytecode.length - 2) / 2} bytes at ${deployment.address}`;
+  });
+  results.push(code);
+  // Nothing else can pass against an empty address
+  if (code.status === "fail") return results;
+
+  results.push(
+    explorer === true
+      ? await run(name, "explorer", () => verifyOnExplorer(hre, deployment))
+      : skipped(name, "explorer", explorer),
+  );
+
+  let contract: Contract;
+  try {
+    contract = new Contract(deployment.address, readAbi(name), signer);
+  } catch (e) {
+    results.push({ contract: name, check: "abi", status: "fail", detail: (e as Error).message });
+    return results;
+  }
+  for (const [check, fn] of Object.entries(SMOKE_TESTS[name] ?? {})) {
+    results.push(await run(name, check, () => fn(contract, signer)));
+  }
+  return results;
+}
+
+// Reason to skip explorer verification, or true when it can run
+function explorerAvailability(hre: HardhatRuntimeEnvironment, chainId: number, skip: boolean): true | string {
+  if (skip) return "Skipped with --skip-explorer";
+  if (chainId === LOCAL_CHAIN_ID) return "Local node has no explorer";
+  const apiKey = hre.config.etherscan?.apiKey;
+  const key = typeof apiKey === "string" ? apiKey : apiKey?.[hre.network.name];
+  return key ? true : "ETHERSCAN_API_KEY is not set";
+}
+
+function writeReport(report: ChainReport) {
+  // Reports for other chains are kept, mirroring the manifest
+  const reports: Record<string, ChainReport> = fs.existsSync(REPORT_PATH)
+    ? JSON.parse(fs.readFileSync(REPORT_PATH, "utf8"))
+    : {};
+  reports[report.chainId] = report;
+  fs.mkdirSync(path.dirname(REPORT_PATH), { recursive: true });
+  fs.writeFileSync(REPORT_PATH, JSON.stringify(reports, null, 2) + "\n");
+}
+
+/**
+ * Example:
+ *   - npx hardhat --network localhost deployment:verify
+ *   - npx hardhat --network sepolia deployment:verify --signer 0
+ */
+task("deployment:verify", "Verifies and smoke-tests the contracts recorded in the deployment manifest")
+  .addOptionalParam("signer", "Index of the signer that sends the smoke-test transactions", 0, types.int)
+  .addFlag("skipExplorer", "Do not verify source code on the block explorer")
+  .setAction(async function (taskArguments: TaskArguments, hre) {
+    const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+    const deployment = readManifest()[chainId];
+    if (!deployment) {
+      throw new Error(`No deployment recorded for chain ${chainId} (${hre.network.name}): deploy first`);
+    }
+
+    const signers = await hre.ethers.getSigners();
+    const signer = signers[taskArguments.signer];
+    if (!signer) throw new Error(`No signer at index ${taskArguments.signer}`);
+
+    const explorer = explorerAvailability(hre, chainId, taskArguments.skipExplorer);
+    const checks: CheckResult[] = [];
+    for (const [name, contract] of Object.entries(deployment.contracts)) {
+      checks.push(...(await checkContract(hre, name, contract, signer, explorer)));
+    }
+
+    const report: ChainReport = {
+      chainId,
+      network: hre.network.name,
+      checkedAt: new Date().toISOString(),
+      passed: checks.every((c) => c.status !== "fail"),
+      checks,
+    };
+    writeReport(report);
+
+    for (const c of checks) {
+      console.log(`  [${c.status}] ${c.contract} ${c.check}: ${c.detail}`);
+    }
+    console.log(`Wrote ${relative(REPORT_PATH)}`);
+    if (!report.passed) {
+      throw new Error(`${checks.filter((c) => c.status === "fail").length} deployment check(s) failed`);
+    }
+  });
@@ -0,0 +1,988 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { AccessRole, accessCandidates } from "../frontend/web/src/accessCandidates";
+import { analyzeHistory } from "../frontend/web/src/analytics";
+import { analysisStart } from "../frontend/web/src/analysisStart";
+import { BubbleAnalytics, BubbleAnalytics__factory, IACL } from "../types";
+
+type Signers = {
+  deployer: HardhatEthersSigner;
+  alice: HardhatEthersSigner;
+  analyzer: HardhatEthersSigner;
+  mallory: HardhatEthersSigner;
+};
+
+type ReadingHistory = {
+  articleIds: number[];
+  categoryScores: number[];
+  sentimentScores: number[];
+};
+
+type AnalysisResult = {
+  diversityScore: number;
+  biasVector: number[];
+  recommendedArticles: number[];
+};
+
+const CATEGORIES = ["Politics", "Technology", "Health", "Environment", "Economy"];
+
+const HISTORY: ReadingHistory = {
+  articleIds: [101, 102, 103],
+  categoryScores: [2, 1, 0, 0, 0],
+  sentimentScores: [140, 60, 0, 0, 0],
+};
+
+const RESULT: AnalysisResult = {
+  diversityScore: 44,
+  biasVector: [70, 60, 50, 50, 50],
+  recommendedArticles: [2001, 2002, 2003],
+};
+
+// Exact reference for calculateAnalysis, written independently of frontend/web/src/analytics.ts so it can
+// check the contract and that mirror alike: every score is an exact fraction from its definition, rounded
+// to the nearest integer, halves up, only at the end.
+type Fraction = [numerator: bigint, denominator: bigint];
+
+const fraction = (numerator: bigint, denominator = 1n): Fraction => [numerator, denominator];
+const add = ([a, b]: Fraction, [c, d]: Fraction) => fraction(a * d + c * b, b * d);
+const subtract = ([a, b]: Fraction, [c, d]: Fraction) => fraction(a * d - c * b, b * d);
+const multiply = ([a, b]: Fraction, [c, d]: Fraction) => fraction(a * c, b * d);
+const divide = ([a, b]: Fraction, [c, d]: Fraction) => fraction(a * d, b * c);
+
+function roundedScore([numerator, denominator]: Fraction): number {
+  if (numerator >= 100n * denominator) return 100;
+  const whole = numerator / denominator;
+  return Number(2n * (numerator - whole * denominator) >= denominator ? whole + 1n : whole);
+}
+
+function referenceAnalysis(categoryScores: number[], sentimentScores: number[]): AnalysisResult {
+  const k = BigInt(categoryScores.length);
+  const total = categoryScores.reduce((sum, c) => sum + BigInt(c), 0n);
+  // Gini-Simpson index 1 - sum(p_i^2), divided by its maximum (k - 1) / k for an even spread
+  const concentration = categoryScores
+    .map((c) => fraction(BigInt(c), total))
+    .reduce((sum, p) => add(sum, multiply(p, p)), fraction(0n));
+  const giniSimpson = subtract(fraction(1n), concentration);
+  const diversity = total === 0n ? 0 : roundedScore(multiply(fraction(100n), divide(giniSimpson, fraction(k - 1n, k))));
+
+  const leastRead = categoryScores.indexOf(Math.min(...categoryScores));
+  return {
+    diversityScore: diversity,
+    biasVector: categoryScores.map((c, i) => (c === 0 ? 50 : roundedScore(fraction(BigInt(sentimentScores[i]), BigInt(c))))),
+    recommendedArticles: [1, 2, 3].map((j) => leastRead * 1000 + j),
+  };
+}
+
+// Deterministic pseudo-random histories, so a failing case can be reproduced
+function differentialHistories(count = 6) {
+  let seed = 20;
+  const next = (below: number) => {
+    seed = (seed * 48271) % 2147483647;
+    return seed % below;
+  };
+  return Array.from({ length: count }, () => {
+    const categoryScores = CATEGORIES.map(() => (next(3) === 0 ? 0 : next(40)));
+    // Each article's sentiment is 0 to 100, as in the frontend
+    const sentimentScores = categoryScores.map((c) =>
+      Array.from({ length: c }, () => next(101)).reduce((a, b) => a + b, 0),
+    );
+    return { categoryScores, sentimentScores };
+  });
+}
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("BubbleAnalytics")) as BubbleAnalytics__factory;
+  const contract = (await factory.deploy()) as BubbleAnalytics;
+  const contractAddress = await contract.getAddress();
+  return { contract, contractAddress };
+}
+
+const userIdFor = (signer: HardhatEthersSigner) => BigInt(signer.address);
+
+describe("BubbleAnalytics", function () {
+  let signers: Signers;
+  let contract: BubbleAnalytics;
+  let contractAddress: string;
+
+  // Encrypts a whole history as one input, the way the frontend submits it
+  async function encryptHistory(user: HardhatEthersSigner, history: ReadingHistory) {
+    const input = fhevm.createEncryptedInput(contractAddress, user.address);
+    [...history.articleIds, ...history.categoryScores, ...history.sentimentScores].forEach((v) => input.add32(v));
+    const { handles, inputProof } = await input.encrypt();
+
+    const categoriesStart = history.articleIds.length;
+    const sentimentsStart = categoriesStart + history.categoryScores.length;
+    return {
+      articleIds: handles.slice(0, categoriesStart),
+      categoryScores: handles.slice(categoriesStart, sentimentsStart),
+      sentimentScores: handles.slice(sentimentsStart),
+      inputProof,
+    };
+  }
+
+  async function submitHistory(user: HardhatEthersSigner, history: ReadingHistory = HISTORY) {
+    const encrypted = await encryptHistory(user, history);
+    return contract
+      .connect(user)
+      .submitReadingHistory(
+        userIdFor(user),
+        encrypted.articleIds,
+        encrypted.categoryScores,
+        encrypted.sentimentScores,
+        encrypted.inputProof,
+      );
+  }
+
+  // Encrypts in the order appendArticle takes the handles: category, sentiment, article id
+  async function appendArticle(user: HardhatEthersSigner, article: { articleId: number; category: number; sentiment: number }) {
+    const input = fhevm.createEncryptedInput(contractAddress, user.address);
+    input.add32(article.category).add32(article.sentiment).add32(article.articleId);
+    const { handles, inputProof } = await input.encrypt();
+    return contract.connect(user).appendArticle(userIdFor(user), handles[0], handles[1], handles[2], inputProof);
+  }
+
+  async function decryptHistory(user: HardhatEthersSigner) {
+    const [articleIds, categoryScores, sentimentScores] = await contract.getEncryptedReadingHistory(userIdFor(user));
+    const decrypt = async (handles: string[]) => {
+      const values = [];
+      for (const handle of handles) {
+        values.push(Number(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, user)));
+      }
+      return values;
+    };
+    return {
+      articleIds: await decrypt(articleIds),
+      categoryScores: await decrypt(categoryScores),
+      sentimentScores: await decrypt(sentimentScores),
+    };
+  }
+
+  async function storeResult(user: HardhatEthersSigner, result: AnalysisResult = RESULT) {
+    const input = fhevm.createEncryptedInput(contractAddress, signers.analyzer.address);
+    [result.diversityScore, ...result.biasVector, ...result.recommendedArticles].forEach((v) => input.add32(v));
+    const { handles, inputProof } = await input.encrypt();
+
+    const biasEnd = 1 + result.biasVector.length;
+    return contract
+      .connect(signers.analyzer)
+      .storeAnalysisResults(userIdFor(user), handles[0], handles.slice(1, biasEnd), handles.slice(biasEnd), inputProof);
+  }
+
+  before(async function () {
+    const ethSigners = await ethers.getSigners();
+    signers = { deployer: ethSigners[0], alice: ethSigners[1], analyzer: ethSigners[2], mallory: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    // Encrypted inputs and decryption helpers are only available against the fhevm mock
+    if (!fhevm.isMock) {
+      console.warn("This hardhat test suite cannot run on Sepolia Testnet");
+      this.skip();
+    }
+
+    ({ contract, contractAddress } = await deployFixture());
+    await (await contract.setAnalyzer(signers.analyzer.address, true)).wait();
+  });
+
+  const registerUser = async (user: HardhatEthersSigner) =>
+    (await contract.connect(user).registerUser(userIdFor(user))).wait();
+
+  describe("access control", function () {
+    it("makes the deployer admin", async function () {
+      expect(await contract.admin()).to.eq(signers.deployer.address);
+      expect(await contract.analyzers(signers.analyzer.address)).to.eq(true);
+      expect(await contract.analyzers(signers.mallory.address)).to.eq(false);
+    });
+
+    it("registers a userId to the calling wallet once", async function () {
+      await expect(contract.connect(signers.alice).registerUser(userIdFor(signers.alice)))
+        .to.emit(contract, "UserRegistered")
+        .withArgs(userIdFor(signers.alice), signers.alice.address);
+      expect(await contract.userWallets(userIdFor(signers.alice))).to.eq(signers.alice.address);
+
+      await expect(
+        contract.connect(signers.alice).registerUser(userIdFor(signers.alice)),
+      ).to.be.revertedWith("User already registered");
+      await expect(contract.connect(signers.alice).registerUser(0)).to.be.revertedWith(
+        "User id is not the caller's address",
+      );
+    });
+
+    it("rejects a third party claiming another wallet's userId before it registers", async function () {
+      const aliceId = userIdFor(signers.alice);
+      await expect(contract.connect(signers.mallory).registerUser(aliceId)).to.be.revertedWith(
+        "User id is not the caller's address",
+      );
+
+      const encrypted = await encryptHistory(signers.mallory, HISTORY);
+      await expect(
+        contract
+          .connect(signers.mallory)
+          .submitReadingHistory(
+            aliceId,
+            encrypted.articleIds,
+            encrypted.categoryScores,
+            encrypted.sentimentScores,
+            encrypted.inputProof,
+          ),
+      ).to.be.revertedWith("User id is not the caller's address");
+      expect(await contract.userWallets(aliceId)).to.eq(ethers.ZeroAddress);
+
+      await expect(submitHistory(signers.alice)).to.emit(contract, "UserRegistered").withArgs(aliceId, signers.alice.address);
+    });
+
+    it("lets only the admin manage analyzers and the admin role", async function () {
+      const mallory = contract.connect(signers.mallory);
+      await expect(mallory.setAnalyzer(signers.mallory.address, true)).to.be.revertedWith("Caller is not the admin");
+      await expect(mallory.transferAdmin(signers.mallory.address)).to.be.revertedWith("Caller is not the admin");
+      await expect(mallory.addCategory("Science")).to.be.revertedWith("Caller is not the admin");
+    });
+
+    it("moves a userId only when its wallet offers it and the new wallet accepts", async function () {
+      const aliceId = userIdFor(signers.alice);
+      await registerUser(signers.alice);
+      await expect(contract.setUserWallet(aliceId, signers.deployer.address)).to.be.revertedWith(
+        "Not the registered wallet",
+      );
+      await expect(
+        contract.connect(signers.mallory).setUserWallet(aliceId, signers.mallory.address),
+      ).to.be.revertedWith("Not the registered wallet");
+
+      await expect(contract.connect(signers.alice).setUserWallet(aliceId, signers.mallory.address))
+        .to.emit(contract, "UserWalletProposed")
+        .withArgs(aliceId, signers.mallory.address);
+      expect(await contract.userWallets(aliceId)).to.eq(signers.alice.address);
+      await expect(contract.connect(signers.analyzer).acceptUserWallet(aliceId)).to.be.revertedWith(
+        "Not the proposed wallet",
+      );
+
+      await expect(contract.connect(signers.mallory).acceptUserWallet(aliceId))
+        .to.emit(contract, "UserRegistered")
+        .withArgs(aliceId, signers.mallory.address);
+      expect(await contract.pendingUserWallets(aliceId)).to.eq(ethers.ZeroAddress);
+      await expect(contract.connect(signers.alice).requestAnalysis(aliceId)).to.be.revertedWith(
+        "Not the registered wallet",
+      );
+    });
+
+    it("hands every admin permission to the new admin", async function () {
+      await expect(contract.transferAdmin(signers.alice.address))
+        .to.emit(contract, "AdminTransferred")
+        .withArgs(signers.deployer.address, signers.alice.address);
+
+      await expect(contract.setAnalyzer(signers.deployer.address, true)).to.be.revertedWith("Caller is not the admin");
+      await expect(contract.connect(signers.alice).setAnalyzer(signers.analyzer.address, false))
+        .to.emit(contract, "AnalyzerUpdated")
+        .withArgs(signers.analyzer.address, false);
+      await expect(storeResult(signers.alice)).to.be.revertedWith("Caller is not an analyzer");
+    });
+
+    it("rejects every user action from a wallet other than the registered one", async function () {
+      await (await submitHistory(signers.alice)).wait();
+      await (await storeResult(signers.alice)).wait();
+
+      const mallory = contract.connect(signers.mallory);
+      const aliceId = userIdFor(signers.alice);
+      await expect(mallory.requestAnalysis(aliceId)).to.be.revertedWith("Not the registered wallet");
+      await expect(mallory.grantResultAccess(aliceId)).to.be.revertedWith("Not the registered wallet");
+      await expect(mallory.requestResultDecryption(aliceId)).to.be.revertedWith("Not the registered wallet");
+
+      const encrypted = await encryptHistory(signers.mallory, HISTORY);
+      await expect(
+        mallory.submitReadingHistory(
+          aliceId,
+          encrypted.articleIds,
+          encrypted.categoryScores,
+          encrypted.sentimentScores,
+          encrypted.inputProof,
+        ),
+      ).to.be.revertedWith("Not the registered wallet");
+    });
+  });
+
+  describe("submitReadingHistory", function () {
+    it("stores the encrypted history and emits ReadingHistorySubmitted", async function () {
+      await expect(submitHistory(signers.alice))
+        .to.emit(contract, "ReadingHistorySubmitted")
+        .withArgs(userIdFor(signers.alice), anyValue);
+      expect(await contract.userWallets(userIdFor(signers.alice))).to.eq(signers.alice.address);
+
+      const [userId, timestamp] = await contract.userReadingHistory(userIdFor(signers.alice));
+      expect(userId).to.eq(userIdFor(signers.alice));
+      expect(timestamp).to.be.greaterThan(0);
+
+      const [articleIds, categoryScores, sentimentScores] = await contract.getEncryptedReadingHistory(
+        userIdFor(signers.alice),
+      );
+      expect(articleIds).to.have.length(HISTORY.articleIds.length);
+      expect(categoryScores).to.have.length(CATEGORIES.length);
+      expect(sentimentScores).to.have.length(CATEGORIES.length);
+    });
+
+    it("rejects category scores that do not cover every category", async function () {
+      const history = { ...HISTORY, categoryScores: [2, 1, 0, 0] };
+      await expect(submitHistory(signers.alice, history)).to.be.revertedWith("Invalid category scores length");
+    });
+
+    it("rejects sentiment scores that do not cover every category", async function () {
+      const history = { ...HISTORY, sentimentScores: [140, 60] };
+      await expect(submitHistory(signers.alice, history)).to.be.revertedWith("Invalid sentiment scores length");
+    });
+
+    it("rejects handles encrypted for another user", async function () {
+      const encrypted = await encryptHistory(signers.analyzer, HISTORY);
+      await expect(
+        contract
+          .connect(signers.alice)
+          .submitReadingHistory(
+            userIdFor(signers.alice),
+            encrypted.articleIds,
+            encrypted.categoryScores,
+            encrypted.sentimentScores,
+            encrypted.inputProof,
+          ),
+      ).to.be.reverted;
+    });
+  });
+
+  describe("appendArticle", function () {
+    it("starts a history from the first article and emits ArticleAppended", async function () {
+      await expect(appendArticle(signers.alice, { articleId: 101, category: 1, sentiment: 70 }))
+        .to.emit(contract, "ArticleAppended")
+        .withArgs(userIdFor(signers.alice), 1);
+      expect(await contract.userWallets(userIdFor(signers.alice))).to.eq(signers.alice.address);
+
+      expect(await decryptHistory(signers.alice)).to.deep.eq({
+        articleIds: [101],
+        categoryScores: [0, 1, 0, 0, 0],
+        sentimentScores: [0, 70, 0, 0, 0],
+      });
+    });
+
+    it("adds to the running totals of a submitted history", async function () {
+      await (await submitHistory(signers.alice)).wait();
+      await (await appendArticle(signers.alice, { articleId: 104, category: 0, sentiment: 30 })).wait();
+      await (await appendArticle(signers.alice, { articleId: 105, category: 4, sentiment: 90 })).wait();
+
+      expect(await decryptHistory(signers.alice)).to.deep.eq({
+        articleIds: [...HISTORY.articleIds, 104, 105],
+        categoryScores: [3, 1, 0, 0, 1],
+        sentimentScores: [170, 60, 0, 0, 90],
+      });
+    });
+
+    it("extends a history with categories added after it started", async function () {
+      await (await appendArticle(signers.alice, { articleId: 101, category: 0, sentiment: 40 })).wait();
+      await (await contract.addCategory("Science")).wait();
+      await (await appendArticle(signers.alice, { articleId: 102, category: 5, sentiment: 80 })).wait();
+
+      const history = await decryptHistory(signers.alice);
+      expect(history.categoryScores).to.deep.eq([1, 0, 0, 0, 0, 1]);
+      expect(history.sentimentScores).to.deep.eq([40, 0, 0, 0, 0, 80]);
+    });
+
+    it("rejects appends from a wallet other than the registered one", async function () {
+      await (await submitHistory(signers.alice)).wait();
+
+      const input = fhevm.createEncryptedInput(contractAddress, signers.mallory.address);
+      input.add32(0).add32(100).add32(666);
+      const { handles, inputProof } = await input.encrypt();
+      await expect(
+        contract
+          .connect(signers.mallory)
+          .appendArticle(userIdFor(signers.alice), handles[0], handles[1], handles[2], inputProof),
+      ).to.be.revertedWith("Not the registered wallet");
+    });
+  });
+
+  describe("starting an analysis from the frontend", function () {
+    // As BubbleAnalyticsClient.articleCount reads it
+    async function articleCount(user: HardhatEthersSigner) {
+      const [, timestamp] = await contract.userReadingHistory(userIdFor(user));
+      if (timestamp === 0n) return 0;
+      return (await contract.getEncryptedReadingHistory(userIdFor(user)))[0].length;
+    }
+
+    it("analyses the appended history from a device that stored none of it", async function () {
+      await (await appendArticle(signers.alice, { articleId: 101, category: 0, sentiment: 40 })).wait();
+      await (await appendArticle(signers.alice, { articleId: 102, category: 1, sentiment: 80 })).wait();
+
+      // A second device, or one with its storage cleared, knows none or only some of the articles
+      const fromOtherDevice = { articleIds: [], categoryScores: [0, 0, 0, 0, 0], sentimentScores: [0, 0, 0, 0, 0] };
+      const partial = { articleIds: [102], categoryScores: [0, 1, 0, 0, 0], sentimentScores: [0, 80, 0, 0, 0] };
+      expect(analysisStart(await articleCount(signers.alice), fromOtherDevice)).to.deep.eq({ action: "request" });
+      expect(analysisStart(await articleCount(signers.alice), partial)).to.deep.eq({ action: "request" });
+
+      await expect(contract.connect(signers.alice).requestAnalysis(userIdFor(signers.alice))).to.emit(
+        contract,
+        "AnalysisRequested",
+      );
+      const history = await decryptHistory(signers.alice);
+      expect(history.articleIds).to.deep.eq([101, 102]);
+      expect(history.categoryScores).to.deep.eq([1, 1, 0, 0, 0]);
+    });
+
+    it("submits this browser's history only when nothing is on chain", async function () {
+      expect(analysisStart(await articleCount(signers.alice), HISTORY)).to.deep.eq({ action: "submit" });
+      expect(analysisStart(await articleCount(signers.alice), { articleIds: [] })).to.deep.eq({ action: "empty" });
+    });
+  });
+
+  describe("requestAnalysis", function () {
+    it("requires a submitted reading history", async function () {
+      await registerUser(signers.alice);
+      await expect(contract.connect(signers.alice).requestAnalysis(userIdFor(signers.alice))).to.be.revertedWith(
+        "No reading history",
+      );
+    });
+
+    it("emits AnalysisRequested once a history is submitted", async function () {
+      await (await submitHistory(signers.alice)).wait();
+
+      await expect(contract.connect(signers.alice).requestAnalysis(userIdFor(signers.alice)))
+        .to.emit(contract, "AnalysisRequested")
+        .withArgs(userIdFor(signers.alice));
+    });
+  });
+
+  describe("storeAnalysisResults", function () {
+    beforeEach(async function () {
+      await registerUser(signers.alice);
+    });
+
+    it("is restricted to analyzers", async function () {
+      await (await contract.setAnalyzer(signers.analyzer.address, false)).wait();
+      await expect(storeResult(signers.alice)).to.be.revertedWith("Caller is not an analyzer");
+    });
+
+    it("requires the user to be registered", async function () {
+      await expect(storeResult(signers.mallory)).to.be.revertedWith("User not registered");
+    });
+
+    it("rejects a bias vector that does not cover every category", async function () {
+      await expect(storeResult(signers.alice, { ...RESULT, biasVector: [70, 60] })).to.be.revertedWith(
+        "Invalid bias vector length",
+      );
+    });
+
+    it("marks the analysis complete and emits AnalysisCompleted", async function () {
+      expect(await contract.analysisResults(userIdFor(signers.alice))).to.deep.eq([ethers.ZeroHash, false]);
+
+      await expect(storeResult(signers.alice)).to.emit(contract, "AnalysisCompleted").withArgs(userIdFor(signers.alice));
+
+      const [, isComplete] = await contract.analysisResults(userIdFor(signers.alice));
+      expect(isComplete).to.eq(true);
+
+      const [, biasVector, recommendedArticles] = await contract.getEncryptedAnalysisResult(userIdFor(signers.alice));
+      expect(biasVector).to.have.length(CATEGORIES.length);
+      expect(recommendedArticles).to.have.length(RESULT.recommendedArticles.length);
+    });
+
+    it("lets the user decrypt the result privately after grantResultAccess", async function () {
+      await expect(
+        contract.connect(signers.alice).grantResultAccess(userIdFor(signers.alice)),
+      ).to.be.revertedWith("Analysis not complete");
+
+      await (await storeResult(signers.alice)).wait();
+      await expect(contract.connect(signers.alice).grantResultAccess(userIdFor(signers.alice)))
+        .to.emit(contract, "ResultAccessGranted")
+        .withArgs(userIdFor(signers.alice), signers.alice.address);
+
+      const [diversityScore, biasVector, recommendedArticles] = await contract.getEncryptedAnalysisResult(
+        userIdFor(signers.alice),
+      );
+      const decrypt = (handle: string) =>
+        fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.alice);
+
+      expect(await decrypt(diversityScore)).to.eq(RESULT.diversityScore);
+      for (let i = 0; i < biasVector.length; i++) {
+        expect(await decrypt(biasVector[i])).to.eq(RESULT.biasVector[i]);
+      }
+      for (let i = 0; i < recommendedArticles.length; i++) {
+        expect(await decrypt(recommendedArticles[i])).to.eq(RESULT.recommendedArticles[i]);
+      }
+    });
+  });
+
+  describe("decryptAnalysisResult", function () {
+    beforeEach(async function () {
+      await registerUser(signers.alice);
+    });
+
+    it("requires a completed analysis before requesting decryption", async function () {
+      await expect(
+        contract.connect(signers.alice).requestResultDecryption(userIdFor(signers.alice)),
+      ).to.be.revertedWith("Analysis not complete");
+    });
+
+    it("reveals the result once the decryption oracle calls back", async function () {
+      await (await storeResult(signers.alice)).wait();
+      await (await contract.connect(signers.alice).requestResultDecryption(userIdFor(signers.alice))).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const [diversityScore, biasVector, recommendedArticles, isRevealed] = await contract.getDecryptedAnalysisResult(
+        userIdFor(signers.alice),
+      );
+      expect(isRevealed).to.eq(true);
+      expect(diversityScore).to.eq(RESULT.diversityScore);
+      expect(biasVector.map(Number)).to.deep.eq(RESULT.biasVector);
+      expect(recommendedArticles.map(Number)).to.deep.eq(RESULT.recommendedArticles);
+
+      await expect(
+        contract.connect(signers.alice).requestResultDecryption(userIdFor(signers.alice)),
+      ).to.be.revertedWith("Already revealed");
+    });
+
+    it("rejects callbacks for unknown requests", async function () {
+      await expect(contract.decryptAnalysisResult(42, "0x", "0x")).to.be.revertedWith("Invalid request");
+    });
+  });
+
+  describe("decryption requests", function () {
+    const requestDecryption = () => contract.connect(signers.alice).requestResultDecryption(userIdFor(signers.alice));
+
+    beforeEach(async function () {
+      await registerUser(signers.alice);
+      await (await storeResult(signers.alice)).wait();
+    });
+
+    it("records each request with its timestamp and emits its id", async function () {
+      await expect(requestDecryption())
+        .to.emit(contract, "DecryptionRequested")
+        .withArgs(userIdFor(signers.alice), anyValue, anyValue);
+
+      const [requestId] = await contract.getDecryptionRequests(userIdFor(signers.alice));
+      const [userId, requestedAt, fulfilled] = await contract.decryptionRequests(requestId);
+      expect(userId).to.eq(userIdFor(signers.alice));
+      expect(requestedAt).to.eq(await time.latest());
+      expect(fulfilled).to.eq(false);
+    });
+
+    it("marks the request fulfilled once the oracle calls back", async function () {
+      await (await requestDecryption()).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const [requestId] = await contract.getDecryptionRequests(userIdFor(signers.alice));
+      const [, , fulfilled] = await contract.decryptionRequests(requestId);
+      expect(fulfilled).to.eq(true);
+    });
+
+    it("allows a new request only after the pending one times out", async function () {
+      await (await requestDecryption()).wait();
+      await expect(requestDecryption()).to.be.revertedWith("Decryption already pending");
+
+      await time.increase(await contract.decryptionTimeout());
+      await expect(requestDecryption()).to.emit(contract, "DecryptionRequested");
+
+      const requestIds = await contract.getDecryptionRequests(userIdFor(signers.alice));
+      expect(requestIds).to.have.length(2);
+      expect(requestIds[1]).to.not.eq(requestIds[0]);
+    });
+
+    it("accepts the answer to an earlier request after a re-request revealed the result", async function () {
+      await (await requestDecryption()).wait();
+      await time.increase(await contract.decryptionTimeout());
+      await (await requestDecryption()).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const [, , , isRevealed] = await contract.getDecryptedAnalysisResult(userIdFor(signers.alice));
+      expect(isRevealed).to.eq(true);
+      for (const requestId of await contract.getDecryptionRequests(userIdFor(signers.alice))) {
+        const [, , fulfilled] = await contract.decryptionRequests(requestId);
+        expect(fulfilled).to.eq(true);
+      }
+    });
+
+    it("ignores the answer to a request for a result replaced while it was pending", async function () {
+      const replaced: AnalysisResult = { diversityScore: 81, biasVector: [55, 45, 50, 50, 50, 65], recommendedArticles: [3001] };
+      await (await requestDecryption()).wait();
+      // A category added meanwhile also changes how many values the replaced result has
+      await (await contract.addCategory("Science")).wait();
+      await (await storeResult(signers.alice, replaced)).wait();
+      await fhevm.awaitDecryptionOracle();
+
+      const [staleId] = await contract.getDecryptionRequests(userIdFor(signers.alice));
+      const [, , fulfilled] = await contract.decryptionRequests(staleId);
+      expect(fulfilled).to.eq(true);
+      const [, , , isRevealed] = await contract.getDecryptedAnalysisResult(userIdFor(signers.alice));
+      expect(isRevealed).to.eq(false);
+
+      await (await requestDecryption()).wait();
+      await fhevm.awaitDecryptionOracle();
+      const [diversityScore, biasVector, recommendedArticles] = await contract.getDecryptedAnalysisResult(
+        userIdFor(signers.alice),
+      );
+      expect(diversityScore).to.eq(replaced.diversityScore);
+      expect(biasVector.map(Number)).to.deep.eq(replaced.biasVector);
+      expect(recommendedArticles.map(Number)).to.deep.eq(replaced.recommendedArticles);
+    });
+
+    it("allows a new request at once when the result is replaced while one is pending", async function () {
+      await (await requestDecryption()).wait();
+      await expect(requestDecryption()).to.be.revertedWith("Decryption already pending");
+
+      await (await storeResult(signers.alice, { ...RESULT, diversityScore: 12 })).wait();
+      await expect(requestDecryption()).to.emit(contract, "DecryptionRequested");
+      await fhevm.awaitDecryptionOracle();
+
+      const [diversityScore, , , isRevealed] = await contract.getDecryptedAnalysisResult(userIdFor(signers.alice));
+      expect(isRevealed).to.eq(true);
+      expect(diversityScore).to.eq(12);
+    });
+
+    it("lets only the admin change the timeout", async function () {
+      await expect(contract.connect(signers.alice).setDecryptionTimeout(60)).to.be.revertedWith(
+        "Caller is not the admin",
+      );
+      await expect(contract.setDecryptionTimeout(0)).to.be.revertedWith("Invalid timeout");
+      await expect(contract.setDecryptionTimeout(60)).to.emit(contract, "DecryptionTimeoutUpdated").withArgs(60);
+
+      await (await requestDecryption()).wait();
+      await time.increase(60);
+      await expect(requestDecryption()).to.emit(contract, "DecryptionRequested");
+    });
+  });
+
+  describe("addCategory", function () {
+    it("appends a new category at the next index", async function () {
+      await (await contract.addCategory("Science")).wait();
+
+      expect(await contract.getCategories()).to.deep.eq([...CATEGORIES, "Science"]);
+      expect(await contract.categoryIndex("Science")).to.eq(CATEGORIES.length);
+    });
+
+    it("rejects duplicates, including the category at index 0", async function () {
+      await expect(contract.addCategory("Technology")).to.be.revertedWith("Category already exists");
+      await expect(contract.addCategory("Politics")).to.be.revertedWith("Category already exists");
+    });
+
+    it("bumps the registry version and emits CategoryAdded", async function () {
+      const version = await contract.categoriesVersion();
+
+      await expect(contract.addCategory("Science"))
+        .to.emit(contract, "CategoryAdded")
+        .withArgs(CATEGORIES.length, "Science", version + 1n);
+      expect(await contract.categoriesVersion()).to.eq(version + 1n);
+    });
+
+    it("migrates existing histories with zeros for the added category", async function () {
+      await (await submitHistory(signers.alice)).wait();
+      await (await contract.addCategory("Science")).wait();
+      expect(await contract.isHistoryCurrent(userIdFor(signers.alice))).to.eq(false);
+
+      await expect(contract.connect(signers.mallory).migrateHistories([userIdFor(signers.alice), 42]))
+        .to.emit(contract, "HistoryMigrated")
+        .withArgs(userIdFor(signers.alice), await contract.categoriesVersion());
+
+      expect(await contract.isHistoryCurrent(userIdFor(signers.alice))).to.eq(true);
+      const history = await decryptHistory(signers.alice);
+      expect(history.categoryScores).to.deep.eq([...HISTORY.categoryScores, 0]);
+      expect(history.sentimentScores).to.deep.eq([...HISTORY.sentimentScores, 0]);
+    });
+
+    it("migrates a history before analysing it", async function () {
+      await (await submitHistory(signers.alice)).wait();
+      await (await contract.addCategory("Science")).wait();
+
+      await expect(contract.connect(signers.alice).requestAnalysis(userIdFor(signers.alice))).to.emit(
+        contract,
+        "HistoryMigrated",
+      );
+      expect(await contract.isHistoryCurrent(userIdFor(signers.alice))).to.eq(true);
+    });
+
+    it("requires histories to cover the added category", async function () {
+      await (await contract.addCategory("Science")).wait();
+
+      await expect(submitHistory(signers.alice)).to.be.revertedWith("Invalid category scores length");
+      await expect(
+        submitHistory(signers.alice, {
+          ...HISTORY,
+          categoryScores: [...HISTORY.categoryScores, 1],
+          sentimentScores: [...HISTORY.sentimentScores, 50],
+        }),
+      ).to.emit(contract, "ReadingHistorySubmitted");
+    });
+  });
+
+  describe("ACL", function () {
+    let acl: IACL;
+
+    beforeEach(async function () {
+      // The fhevm mock deploys its own ACL, so take its address from the relayer metadata
+      const { ACLAddress } = await fhevm.getRelayerMetadata();
+      acl = await ethers.getContractAt("IACL", ACLAddress);
+    });
+
+    async function storedHandles(user: HardhatEthersSigner) {
+      const [articleIds, categoryScores, sentimentScores] = await contract.getEncryptedReadingHistory(userIdFor(user));
+      const [diversityScore, biasVector, recommendedArticles] = await contract.getEncryptedAnalysisResult(
+        userIdFor(user),
+      );
+      return [...articleIds, ...categoryScores, ...sentimentScores, diversityScore, ...biasVector, ...recommendedArticles];
+    }
+
+    async function allowedOnAll(handles: string[], account: string) {
+      const allowed = await Promise.all(handles.map((handle) => acl.isAllowed(handle, account)));
+      return allowed.every(Boolean);
+    }
+
+    it("grants every stored handle to the contract and the owning wallet only", async function () {
+      await (await submitHistory(signers.alice)).wait();
+      await (await storeResult(signers.alice)).wait();
+      const handles = await storedHandles(signers.alice);
+
+      expect(await allowedOnAll(handles, contractAddress)).to.eq(true);
+      expect(await allowedOnAll(handles, signers.alice.address)).to.eq(true);
+      for (const handle of handles) {
+        expect(await acl.isAllowed(handle, signers.mallory.address)).to.eq(false);
+        expect(await acl.isAllowed(handle, signers.analyzer.address)).to.eq(false);
+        expect(await acl.isAllowedForDecryption(handle)).to.eq(false);
+      }
+    });
+
+    it("lets the owner decrypt their history without a further grant", async function () {
+      await (await submitHistory(signers.alice)).wait();
+      const [, categoryScores] = await contract.getEncryptedReadingHistory(userIdFor(signers.alice));
+
+      const decrypted = [];
+      for (const handle of categoryScores) {
+        decrypted.push(Number(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, signers.alice)));
+      }
+      expect(decrypted).to.deep.eq(HISTORY.categoryScores);
+    });
+
+    it("grants the handles to a wallet the userId moves to only once it accepts", async function () {
+      await (await submitHistory(signers.alice)).wait();
+      await (await storeResult(signers.alice)).wait();
+      const handles = await storedHandles(signers.alice);
+
+      await (await contract.connect(signers.alice).setUserWallet(userIdFor(signers.alice), signers.mallory.address)).wait();
+      expect(await allowedOnAll(handles, signers.mallory.address)).to.eq(false);
+
+      await (await contract.connect(signers.mallory).acceptUserWallet(userIdFor(signers.alice))).wait();
+      expect(await allowedOnAll(handles, signers.mallory.address)).to.eq(true);
+      // ACL grants cannot be revoked, so the former wallet keeps its access
+      expect(await allowedOnAll(handles, signers.alice.address)).to.eq(true);
+    });
+
+    it("reports the wallets a userId moved away from, which keep their grants", async function () {
+      const aliceId = userIdFor(signers.alice);
+      await (await submitHistory(signers.alice)).wait();
+      await (await storeResult(signers.alice)).wait();
+      await (await contract.connect(signers.alice).setUserWallet(aliceId, signers.mallory.address)).wait();
+      await (await contract.connect(signers.mallory).acceptUserWallet(aliceId)).wait();
+
+      const registered = await contract.queryFilter(contract.filters.UserRegistered(aliceId));
+      const candidates = accessCandidates({
+        contract: contractAddress,
+        owner: await contract.userWallets(aliceId),
+        registeredWallets: registered.map((e) => e.args.wallet),
+        admin: await contract.admin(),
+        analyzers: [signers.analyzer.address],
+        granted: [],
+      });
+      const withRole = (role: AccessRole) => candidates.filter((c) => c.roles.includes(role)).map((c) => c.address);
+      expect(withRole("owner")).to.deep.eq([signers.mallory.address]);
+      expect(withRole("former-owner")).to.deep.eq([signers.alice.address]);
+
+      const handles = await storedHandles(signers.alice);
+      expect(await allowedOnAll(handles, signers.alice.address)).to.eq(true);
+    });
+
+    it("makes the result publicly decryptable only once its decryption is requested", async function () {
+      await registerUser(signers.alice);
+      await (await storeResult(signers.alice)).wait();
+      const [diversityScore] = await contract.getEncryptedAnalysisResult(userIdFor(signers.alice));
+      expect(await acl.isAllowedForDecryption(diversityScore)).to.eq(false);
+
+      await (await contract.connect(signers.alice).requestResultDecryption(userIdFor(signers.alice))).wait();
+      expect(await acl.isAllowedForDecryption(diversityScore)).to.eq(true);
+    });
+  });
+
+  describe("calculateAnalysis", function () {
+    const userId = () => userIdFor(signers.alice);
+
+    async function calculate(user: HardhatEthersSigner) {
+      let steps = 0;
+      do {
+        await (await contract.connect(user).calculateAnalysis(userIdFor(user))).wait();
+        steps++;
+      } while (!(await contract.analysisResults(userIdFor(user))).isComplete);
+      return steps;
+    }
+
+    async function decryptResult(user: HardhatEthersSigner) {
+      const [diversityScore, biasVector, recommendedArticles] = await contract.getEncryptedAnalysisResult(
+        userIdFor(user),
+      );
+      const decrypt = async (handle: string) =>
+        Number(await fhevm.userDecryptEuint(FhevmType.euint32, handle, contractAddress, user));
+      return {
+        diversityScore: await decrypt(diversityScore),
+        biasVector: await Promise.all(biasVector.map(decrypt)),
+        recommendedArticles: await Promise.all(recommendedArticles.map(decrypt)),
+      };
+    }
+
+    async function calculateFor(categoryScores: number[], sentimentScores: number[]) {
+      await (await submitHistory(signers.alice, { articleIds: [101], categoryScores, sentimentScores })).wait();
+      await calculate(signers.alice);
+      return decryptResult(signers.alice);
+    }
+
+    it("is restricted to the registered wallet of a user with a history", async function () {
+      await registerUser(signers.alice);
+      await expect(contract.connect(signers.alice).calculateAnalysis(userId())).to.be.revertedWith(
+        "No reading history",
+      );
+      await (await submitHistory(signers.alice)).wait();
+      await expect(contract.connect(signers.mallory).calculateAnalysis(userId())).to.be.revertedWith(
+        "Not the registered wallet",
+      );
+    });
+
+    it("runs in steps and emits AnalysisCompleted after the last one", async function () {
+      await (await submitHistory(signers.alice)).wait();
+
+      await expect(contract.connect(signers.alice).calculateAnalysis(userId()))
+        .to.emit(contract, "AnalysisCalculationProgress")
+        .withArgs(userId(), 0, CATEGORIES.length);
+      await expect(contract.connect(signers.alice).calculateAnalysis(userId()))
+        .to.emit(contract, "AnalysisCalculationProgress")
+        .withArgs(userId(), 4, CATEGORIES.length)
+        .and.not.to.emit(contract, "AnalysisCompleted");
+      await expect(contract.connect(signers.alice).calculateAnalysis(userId()))
+        .to.emit(contract, "AnalysisCompleted")
+        .withArgs(userId());
+
+      expect(await decryptResult(signers.alice)).to.deep.eq({
+        diversityScore: 56,
+        biasVector: [70, 60, 50, 50, 50],
+        recommendedArticles: [2001, 2002, 2003],
+      });
+    });
+
+    it("restarts when the history changes between steps", async function () {
+      await (await submitHistory(signers.alice)).wait();
+      await (await contract.connect(signers.alice).calculateAnalysis(userId())).wait();
+      await time.increase(60);
+      await (await appendArticle(signers.alice, { articleId: 104, category: 2, sentiment: 90 })).wait();
+
+      await expect(contract.connect(signers.alice).calculateAnalysis(userId()))
+        .to.emit(contract, "AnalysisCalculationProgress")
+        .withArgs(userId(), 0, CATEGORIES.length);
+      await calculate(signers.alice);
+      expect((await decryptResult(signers.alice)).biasVector).to.deep.eq([70, 60, 90, 50, 50]);
+    });
+
+    it("withdraws a revealed result as soon as a recalculation starts", async function () {
+      await (await submitHistory(signers.alice)).wait();
+      await calculate(signers.alice);
+      await (await contract.connect(signers.alice).requestResultDecryption(userId())).wait();
+      await fhevm.awaitDecryptionOracle();
+      expect((await contract.getDecryptedAnalysisResult(userId())).isRevealed).to.eq(true);
+
+      await (await appendArticle(signers.alice, { articleId: 104, category: 2, sentiment: 90 })).wait();
+      await (await contract.connect(signers.alice).calculateAnalysis(userId())).wait();
+      const [diversityScore, biasVector, recommendedArticles, isRevealed] = await contract.getDecryptedAnalysisResult(
+        userId(),
+      );
+      expect(isRevealed).to.eq(false);
+      expect([diversityScore, biasVector, recommendedArticles]).to.deep.eq([0n, [], []]);
+    });
+
+    it("restarts when the history changes in the same block as a step", async function () {
+      const encrypted = await encryptHistory(signers.alice, HISTORY);
+      const input = fhevm.createEncryptedInput(contractAddress, signers.alice.address);
+      const article = await input.add32(2).add32(90).add32(104).encrypt();
+      // Without automine every transaction defaults to the block gas limit, so each sets its own
+      const overrides = { gasLimit: 9_000_000 };
+      const alice = contract.connect(signers.alice);
+
+      // Submit, step and append share the block's timestamp, so only the history revision tells them apart
+      await ethers.provider.send("evm_setAutomine", [false]);
+      try {
+        const txs = [
+          await alice.submitReadingHistory(
+            userId(),
+            encrypted.articleIds,
+            encrypted.categoryScores,
+            encrypted.sentimentScores,
+            encrypted.inputProof,
+            overrides,
+          ),
+          await alice.calculateAnalysis(userId(), overrides),
+          await alice.appendArticle(userId(), article.handles[0], article.handles[1], article.handles[2], article.inputProof, overrides),
+        ];
+        await ethers.provider.send("evm_mine", []);
+        const receipts = await Promise.all(txs.map((tx) => tx.wait()));
+        expect(new Set(receipts.map((r) => r?.blockNumber)).size).to.eq(1);
+      } finally {
+        await ethers.provider.send("evm_setAutomine", [true]);
+      }
+
+      await expect(alice.calculateAnalysis(userId()))
+        .to.emit(contract, "AnalysisCalculationProgress")
+        .withArgs(userId(), 0, CATEGORIES.length);
+      await calculate(signers.alice);
+      expect((await decryptResult(signers.alice)).biasVector).to.deep.eq([70, 60, 90, 50, 50]);
+    });
+
+    it("scores a history read from a single category as not diverse", async function () {
+      const result = await calculateFor([4, 0, 0, 0, 0], [200, 0, 0, 0, 0]);
+      expect(result.diversityScore).to.eq(0);
+    });
+
+    it("scores a history spread evenly across categories as fully diverse", async function () {
+      const result = await calculateFor([3, 3, 3, 3, 3], [150, 150, 150, 150, 150]);
+      expect(result.diversityScore).to.eq(100);
+    });
+
+    it("scores an empty history as not diverse", async function () {
+      const result = await calculateFor([0, 0, 0, 0, 0], [0, 0, 0, 0, 0]);
+      expect(result.diversityScore).to.eq(0);
+    });
+
+    it("reports neutral bias for categories without reads", async function () {
+      const result = await calculateFor([2, 0, 1, 0, 0], [20, 0, 100, 0, 0]);
+      expect(result.biasVector).to.deep.eq([10, 50, 100, 50, 50]);
+    });
+
+    it("recommends articles from the least-read category", async function () {
+      const result = await calculateFor([3, 2, 4, 1, 5], [150, 100, 200, 50, 250]);
+      expect(result.recommendedArticles).to.deep.eq([3001, 3002, 3003]);
+    });
+
+    // The frontend's plaintext analytics module is the oracle: it rounds like the contract, so they agree exactly
+    it("agrees with the exact reference, as the plaintext analytics module does", async function () {
+      // Means of 50.5 and 0.5 check that halves round up
+      const halves = { categoryScores: [2, 4, 1, 0, 1], sentimentScores: [101, 2, 0, 0, 100] };
+      for (const history of [...differentialHistories(), halves]) {
+        const expected = referenceAnalysis(history.categoryScores, history.sentimentScores);
+        expect(analyzeHistory(history), JSON.stringify(history)).to.deep.eq(expected);
+        const result = await calculateFor(history.categoryScores, history.sentimentScores);
+        expect(result, JSON.stringify(history)).to.deep.eq(expected);
+      }
+    });
+
+    it("stays within the HCU limit with the maximum number of categories", async function () {
+      const max = Number(await contract.MAX_CATEGORIES());
+      for (let i = CATEGORIES.length; i < max; i++) {
+        await (await contract.addCategory(`Category ${i}`)).wait();
+      }
+      await expect(contract.addCategory("One too many")).to.be.revertedWith("Too many categories");
+
+      const counts = Array.from({ length: max }, (_, i) => i + 1);
+      const sentiments = counts.map((c, i) => c * ((i * 37) % 101));
+      const result = await calculateFor(counts, sentiments);
+      expect(result).to.deep.eq(referenceAnalysis(counts, sentiments));
+      expect(analyzeHistory({ categoryScores: counts, sentimentScores: sentiments })).to.deep.eq(result);
+    });
+  });
+});
@@ -0,0 +1,284 @@
+import { expect } from "chai";
+import {
+  canonicalUrl,
+  extractLinks,
+  guessCategory,
+  parseArticleLink,
+  slugTitle,
+} from "../frontend/web/src/articleLinks";
+import {
+  ImportFormatError,
+  MAX_IMPORTED_ARTICLES,
+  detectImportFormat,
+  parseBrowserHistory,
+  parseOpml,
+  parseReadLaterCsv,
+  previewImport,
+} from "../frontend/web/src/readingImports";
+
+const CATEGORIES = ["Politics", "Technology", "Health", "Environment", "Economy"];
+
+const ARTICLE = "https://www.theguardian.com/politics/2026/oct/17/senate-passes-budget-deal";
+
+// A Pocket export of the given links, the first read most recently
+const pocketCsv = (links: string[]) =>
+  ["title,url,time_added,tags,status", ...links.map((link, i) => `,${link},${1792000000 - i},,unread`)].join("\n");
+
+describe("Article links", function () {
+  it("extracts each http(s) link once, without trailing punctuation", function () {
+    const text = `Read ${ARTICLE}. Then ${ARTICLE}?utm_source=newsletter, and ftp://example.com/file or (https://apnews.com/article/x-y)`;
+    expect(extractLinks(text)).to.deep.equal([ARTICLE.replace("www.", ""), "https://apnews.com/article/x-y"]);
+  });
+
+  it("drops tracking parameters, fragments, www and the trailing slash", function () {
+    expect(canonicalUrl("https://www.bbc.com/news/science-123/?utm_campaign=a&id=7&fbclid=b#comments")).to.equal(
+      "https://bbc.com/news/science-123/?id=7",
+    );
+    expect(canonicalUrl("https://www.npr.org/sections/health/")).to.equal("https://npr.org/sections/health");
+    expect(canonicalUrl("mailto:editor@example.com")).to.equal(null);
+    expect(canonicalUrl("not a link")).to.equal(null);
+  });
+
+  it("recovers a headline from the slug", function () {
+    expect(slugTitle(new URL("https://nytimes.com/2026/10/17/us/politics/senate-passes-budget-deal.html"))).to.equal(
+      "Senate passes budget deal",
+    );
+    expect(slugTitle(new URL("https://bbc.com/news/world-us-canada-67123456"))).to.equal("World us canada");
+    expect(slugTitle(new URL("https://bbc.com/news"))).to.equal(null);
+  });
+
+  it("guesses the category from sections, the slug and the title", function () {
+    expect(guessCategory(new URL(ARTICLE), CATEGORIES)).to.equal("Politics");
+    expect(guessCategory(new URL("https://cnn.com/2026/10/17/new-vaccine-trial-results"), CATEGORIES)).to.equal(
+      "Health",
+    );
+    expect(guessCategory(new URL("https://cnn.com/2026/10/17/x"), CATEGORIES, "Chip makers and AI")).to.equal(
+      "Technology",
+    );
+    expect(guessCategory(new URL("https://cnn.com/2026/10/17/weekend-reads"), CATEGORIES)).to.equal(null);
+  });
+
+  it("names the outlet and strips it from the page title", function () {
+    const link = parseArticleLink(`${ARTICLE}?utm_source=x`, CATEGORIES, "Senate passes budget deal | The Guardian");
+    expect(link).to.include({
+      url: ARTICLE.replace("www.", ""),
+      domain: "theguardian.com",
+      source: "The Guardian",
+      category: "Politics",
+      summary: "Senate passes budget deal",
+    });
+    expect(link?.outlet?.name).to.equal("The Guardian");
+  });
+
+  it("keeps an unknown site as its domain", function () {
+    const link = parseArticleLink("https://blog.example.org/", CATEGORIES);
+    expect(link).to.include({
+      outlet: null,
+      source: "blog.example.org",
+      summary: "Article from blog.example.org",
+    });
+    expect(parseArticleLink("just some text", CATEGORIES)).to.equal(null);
+  });
+});
+
+describe("Reading history imports", function () {
+  describe("browser history", function () {
+    it("reads Chrome Takeout, with times in microseconds", function () {
+      const takeout = {
+        "Browser History": [{ url: ARTICLE, title: "Budget deal", time_usec: 1792000000123456 }],
+      };
+      expect(parseBrowserHistory(JSON.stringify(takeout))).to.deep.equal([
+        {
+          url: ARTICLE,
+          title: "Budget deal",
+          readAt: 1792000000123,
+          feed: null,
+        },
+      ]);
+    });
+
+    it("reads the extension API in milliseconds and nested Firefox backups", function () {
+      const extension = [{ url: ARTICLE, lastVisitTime: 1792000000123 }];
+      expect(parseBrowserHistory(JSON.stringify(extension))[0]).to.include({
+        title: null,
+        readAt: 1792000000123,
+      });
+
+      const backup = {
+        children: [
+          {
+            title: "Menu",
+            children: [{ uri: ARTICLE, lastModified: "1792000000123456" }],
+          },
+        ],
+      };
+      expect(parseBrowserHistory(JSON.stringify(backup))).to.deep.equal([
+        { url: ARTICLE, title: null, readAt: 1792000000123, feed: null },
+      ]);
+    });
+
+    it("rejects text that is not JSON", function () {
+      expect(() => parseBrowserHistory("{ not json")).to.throw(ImportFormatError, "not valid JSON");
+    });
+  });
+
+  describe("read-later CSV", function () {
+    it("reads quoted fields holding commas, doubled quotes and line breaks", function () {
+      const csv = [
+        "title,url,time_added",
+        `"Deal, at last: ""budget"" passes",${ARTICLE},1792000000`,
+        `"Two\r\nlines","https://apnews.com/article/a-b",`,
+        "",
+      ].join("\r\n");
+      expect(parseReadLaterCsv(csv)).to.deep.equal([
+        {
+          url: ARTICLE,
+          title: 'Deal, at last: "budget" passes',
+          readAt: 1792000000000,
+          feed: null,
+        },
+        {
+          url: "https://apnews.com/article/a-b",
+          title: "Two\r\nlines",
+          readAt: null,
+          feed: null,
+        },
+      ]);
+    });
+
+    it("reads Instapaper's column order and skips rows without a URL", function () {
+      const csv = `URL,Title,Selection,Folder,Timestamp\n${ARTICLE},Budget,,Unread,1792000000\n,Empty,,Unread,1`;
+      expect(parseReadLaterCsv(csv)).to.deep.equal([
+        { url: ARTICLE, title: "Budget", readAt: 1792000000000, feed: null },
+      ]);
+    });
+
+    it("rejects a CSV without a URL column", function () {
+      expect(() => parseReadLaterCsv("title,link\nBudget,x")).to.throw(ImportFormatError, "no URL column");
+    });
+  });
+
+  describe("OPML", function () {
+    it("titles each feed by the folders it is filed in", function () {
+      const opml = `<?xml version="1.0"?>
+<opml version="2.0"><body>
+  <outline text="News">
+    <outline title="Politics &amp; Policy">
+      <outline text="Guardian &#x2014; Politics" htmlUrl="https://www.theguardian.com/politics" xmlUrl="https://www.theguardian.com/politics/rss"/>
+    </outline>
+    <outline text='NPR &#39;Health&#39;' xmlUrl='https://feeds.npr.org/1128/rss.xml'/>
+  </outline>
+  <outline text="Unfiled" xmlUrl="https://apnews.com/feed"></outline>
+</body></opml>`;
+      expect(parseOpml(opml)).to.deep.equal([
+        {
+          url: "https://www.theguardian.com/politics",
+          title: "News / Politics & Policy / Guardian — Politics",
+          readAt: null,
+          feed: "https://www.theguardian.com/politics/rss",
+        },
+        {
+          url: "https://feeds.npr.org/1128/rss.xml",
+          title: "News / NPR 'Health'",
+          readAt: null,
+          feed: "https://feeds.npr.org/1128/rss.xml",
+        },
+        {
+          url: "https://apnews.com/feed",
+          title: "Unfiled",
+          readAt: null,
+          feed: "https://apnews.com/feed",
+        },
+      ]);
+    });
+
+    it("leaves a numeric entity past the last code point as written", function () {
+      const opml = `<opml><body><outline text="Bad &#x110000; &#99999999;" htmlUrl="https://cnn.com"/></body></opml>`;
+      expect(parseOpml(opml)[0].title).to.equal("Bad &#x110000; &#99999999;");
+    });
+
+    it("rejects a file that is not OPML", function () {
+      expect(() => parseOpml("<html></html>")).to.throw(ImportFormatError, "not an OPML file");
+    });
+  });
+
+  it("detects the format from the first character", function () {
+    expect(detectImportFormat("  <?xml version='1.0'?><opml/>")).to.equal("opml");
+    expect(detectImportFormat('\n{"Browser History": []}')).to.equal("browser-history");
+    expect(detectImportFormat("[]")).to.equal("browser-history");
+    expect(detectImportFormat("title,url")).to.equal("read-later");
+  });
+
+  describe("preview", function () {
+    it("ignores a byte order mark", function () {
+      const preview = previewImport(`\uFEFF${pocketCsv([ARTICLE])}`, CATEGORIES);
+      expect(preview.format).to.equal("read-later");
+      expect(preview.articles).to.have.length(1);
+      expect(preview.articles[0]).to.include({
+        source: "The Guardian",
+        category: "Politics",
+        sentiment: 50,
+      });
+    });
+
+    it("counts repeats within the file and articles already stored as duplicates", function () {
+      const stored = "https://apnews.com/article/election-results-2026";
+      const csv = pocketCsv([ARTICLE, `${ARTICLE}?utm_source=share`, stored, "https://reuters.com/markets/rates-rise"]);
+      const preview = previewImport(csv, CATEGORIES, (article) => article.key === stored);
+      expect(preview).to.include({
+        found: 4,
+        duplicates: 2,
+        skipped: 0,
+        truncated: 0,
+      });
+      expect(preview.articles.map((article) => article.key)).to.deep.equal([
+        ARTICLE.replace("www.", ""),
+        "https://reuters.com/markets/rates-rise",
+      ]);
+    });
+
+    it("skips unknown sites and, in a browser history, outlet pages that are not articles", function () {
+      const history = [
+        { url: ARTICLE, time_usec: 2 },
+        { url: "https://www.bbc.com/", time_usec: 1 },
+        { url: "https://blog.example.org/my-first-post", time_usec: 3 },
+      ];
+      const preview = previewImport(JSON.stringify(history), CATEGORIES);
+      expect(preview).to.include({
+        format: "browser-history",
+        found: 3,
+        skipped: 2,
+        duplicates: 0,
+      });
+      expect(preview.articles).to.have.length(1);
+    });
+
+    it("keeps the newest articles up to the limit and counts the rest", function () {
+      const links = Array.from({ length: MAX_IMPORTED_ARTICLES + 5 }, (_, i) => `https://cnn.com/2026/story-${i}`);
+      const preview = previewImport(pocketCsv(links), CATEGORIES);
+      expect(preview).to.include({
+        found: MAX_IMPORTED_ARTICLES + 5,
+        truncated: 5,
+      });
+      expect(preview.articles).to.have.length(MAX_IMPORTED_ARTICLES);
+      expect(preview.articles[0].key).to.equal("https://cnn.com/2026/story-0");
+      expect(preview.articles[MAX_IMPORTED_ARTICLES - 1].key).to.equal(
+        `https://cnn.com/2026/story-${MAX_IMPORTED_ARTICLES - 1}`,
+      );
+    });
+
+    it("keys a subscription by its feed and describes it by its folders", function () {
+      const opml = `<opml><body><outline text="Politics">
+  <outline text="The Guardian" htmlUrl="https://www.theguardian.com/politics"
+    xmlUrl="https://www.theguardian.com/politics/rss?utm_source=reader"/>
+</outline></body></opml>`;
+      const [article] = previewImport(opml, CATEGORIES).articles;
+      expect(article).to.include({
+        key: "https://theguardian.com/politics/rss",
+        source: "The Guardian",
+        category: "Politics",
+        content: "Subscribed to Politics / The Guardian",
+      });
+    });
+  });
+});